@@ -6,11 +6,13 @@ import { ThemeProvider } from "@/hooks/use-theme";
 import { ThemeToggle } from "@/components/theme-toggle";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
+import SubmissionPage from "@/pages/submission";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/submissions/:id" component={SubmissionPage} />
       <Route component={NotFound} />
     </Switch>
   );
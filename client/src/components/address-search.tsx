@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Loader2, MapPin, Search } from "lucide-react";
+import type { GeocodeResult } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+
+// Wait for a pause in typing before asking the geocoder
+const QUERY_DEBOUNCE_MS = 400;
+const MIN_QUERY_LENGTH = 3;
+
+interface AddressSearchProps {
+  near?: { lat: number; lng: number } | null;
+  onSelect: (result: GeocodeResult) => void;
+}
+
+// Address search of the location step, an alternative to typing coordinates
+export function AddressSearch({ near, onSelect }: AddressSearchProps) {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), QUERY_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const params = new URLSearchParams({ q: debouncedQuery });
+  if (near) {
+    params.set("lat", String(near.lat));
+    params.set("lng", String(near.lng));
+  }
+
+  const { data: results = [], isFetching, error } = useQuery<GeocodeResult[]>({
+    queryKey: [`/api/geocode/search?${params}`],
+    enabled: debouncedQuery.length >= MIN_QUERY_LENGTH,
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const handleSelect = (result: GeocodeResult) => {
+    onSelect(result);
+    setQuery("");
+    setDebouncedQuery("");
+  };
+
+  const searching = debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by address"
+          className="pl-8"
+        />
+        {isFetching && <Loader2 className="absolute right-2.5 top-2.5 h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {searching && error && (
+        <p className="text-xs text-muted-foreground">Address search is unavailable, please enter coordinates instead.</p>
+      )}
+      {searching && !error && !isFetching && !results.length && (
+        <p className="text-xs text-muted-foreground">No addresses found.</p>
+      )}
+      {searching && results.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto rounded-md border">
+          {results.map(result => (
+            <li key={`${result.latitude},${result.longitude},${result.label}`}>
+              <button
+                type="button"
+                onClick={() => handleSelect(result)}
+                className="flex w-full items-start gap-2 px-3 py-2 text-left text-sm hover:bg-accent"
+              >
+                <MapPin className="h-4 w-4 mt-0.5 flex-none text-muted-foreground" />
+                {result.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
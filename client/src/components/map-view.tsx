@@ -1,15 +1,88 @@
-import { useEffect, useCallback, useState } from "react";
+import { useEffect, useCallback, useMemo, useRef, useState } from "react";
 import { MapContainer, Marker, useMap, useMapEvents } from "react-leaflet";
 import "leaflet/dist/leaflet.css";
 import "maplibre-gl/dist/maplibre-gl.css";
 import L from "leaflet";
-import { useQuery } from "@tanstack/react-query";
-import type { Merchant } from "@shared/schema";
+import { useQueries, useQuery, type UseQueryResult } from "@tanstack/react-query";
+import { CLUSTER_MAX_ZOOM, TILE_POINT_LIMIT, type Merchant, type MerchantCluster, type PaymentMethod, type SourceHealth, type SourceInfo } from "@shared/schema";
 import "@maplibre/maplibre-gl-leaflet";
 import { useTheme } from "@/hooks/use-theme";
 import { useToast } from "@/hooks/use-toast";
 import { Search, Locate } from "lucide-react";
-import { deduplicateMerchants } from "@/lib/deduplication";
+import { apiRequest } from "@/lib/queryClient";
+import { getViewportTiles } from "@/lib/tiles";
+
+const SEARCH_RESULT_LIMIT = 20;
+const NO_CLUSTERS: MerchantCluster[] = [];
+const EXPORT_FORMATS = ['csv', 'kml', 'gpx', 'geojson'];
+
+// Source health reported by the most recently fetched tile
+function latestSourceHealth(results: UseQueryResult<unknown>[]): Record<string, SourceHealth> | undefined {
+  let latest: UseQueryResult<unknown> | undefined;
+  for (const result of results) {
+    const data = result.data as { sources?: Record<string, SourceHealth> } | undefined;
+    if (data?.sources && (!latest || result.dataUpdatedAt > latest.dataUpdatedAt)) {
+      latest = result;
+    }
+  }
+  return (latest?.data as { sources?: Record<string, SourceHealth> } | undefined)?.sources;
+}
+
+// Merge the merchants of all loaded tiles, a merchant on a tile edge can be returned twice
+function combineTileResults(results: UseQueryResult<unknown>[]) {
+  const byId = new Map<string, Merchant>();
+  let truncated = false;
+  for (const result of results) {
+    const data = result.data as { merchants: Merchant[]; truncated?: boolean } | undefined;
+    data?.merchants.forEach(merchant => byId.set(merchant.id, merchant));
+    if (data?.truncated) truncated = true;
+  }
+  return {
+    merchants: Array.from(byId.values()),
+    truncated,
+    health: latestSourceHealth(results),
+    isFetched: results.every(result => result.isFetched),
+  };
+}
+
+// Merge the clusters and lone merchants of all loaded cluster tiles
+function combineClusterResults(results: UseQueryResult<unknown>[]) {
+  const clusters = new Map<string, MerchantCluster>();
+  const points = new Map<string, Merchant>();
+  for (const result of results) {
+    const data = result.data as { clusters: MerchantCluster[]; points: Merchant[] } | undefined;
+    data?.clusters.forEach(cluster => clusters.set(cluster.id, cluster));
+    data?.points.forEach(merchant => points.set(merchant.id, merchant));
+  }
+  return {
+    clusters: Array.from(clusters.values()),
+    points: Array.from(points.values()),
+    health: latestSourceHealth(results),
+    isFetched: results.every(result => result.isFetched),
+  };
+}
+
+// Merchant fields come from community-edited feeds and spreadsheets, so
+// everything put into popup HTML is escaped
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Only http(s) links make it into an href, ruling out javascript: and data: URLs
+function safeUrl(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? escapeHtml(parsed.href) : null;
+  } catch {
+    return null;
+  }
+}
 
 // Function to truncate URLs for display
 function truncateUrl(url: string, maxLength: number = 30): string {
@@ -34,6 +107,77 @@ function getNavigationUrl(lat: number, lng: number): string {
   return `https://www.google.com/maps/dir/?api=1&destination=${lat},${lng}`;
 }
 
+// Build popup HTML for a normalized merchant
+function createPopupContent(merchant: Merchant, source: SourceInfo): string {
+  const { latitude: lat, longitude: lng, paymentMethods, payUrl } = merchant;
+  const accepts = (method: PaymentMethod) => paymentMethods.includes(method);
+
+  const payHref = safeUrl(payUrl);
+  const websiteHref = safeUrl(merchant.website);
+  const logoSrc = safeUrl(source.logoUrl);
+
+  const payButton = payHref ? `
+    <a href="${payHref}"
+       target="_blank"
+       rel="noopener noreferrer"
+       class="inline-flex items-center justify-center w-8 h-8 rounded-full bg-white hover:bg-gray-100">
+      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+        <rect x="2" y="5" width="20" height="14" rx="2"/>
+        <line x1="2" y1="10" x2="22" y2="10"/>
+      </svg>
+    </a>
+  ` : '';
+
+  return `
+    <div class="text-center min-w-[280px]">
+      ${logoSrc ? `
+      <img
+        src="${logoSrc}"
+        alt="${escapeHtml(source.name)} Logo"
+        class="w-12 h-12 mx-auto mb-2 object-contain"
+      />` : ''}
+      <strong>${escapeHtml(merchant.name)}</strong><br/>
+      ${merchant.username ? `<span>@${escapeHtml(merchant.username)}</span><br/>` : ''}
+      ${merchant.category ? `<em>${escapeHtml(merchant.category)}</em><br/>` : ''}
+      ${merchant.address ? `📍 ${escapeHtml(merchant.address)}<br/>` : ''}
+      ${merchant.phone ? `📞 ${escapeHtml(merchant.phone)}<br/>` : ''}
+      ${websiteHref ? `🌐 <a href="${websiteHref}" target="_blank" rel="noopener noreferrer" class="text-blue-500 hover:underline">${escapeHtml(truncateUrl(merchant.website!))}</a><br/>` : ''}
+      ${merchant.openingHours ? `⏰ ${escapeHtml(merchant.openingHours)}<br/>` : ''}
+      ${merchant.lastSurveyed ? `📅 Last surveyed: ${escapeHtml(merchant.lastSurveyed)}<br/>` : ''}
+      ${merchant.description ? `<div class="mt-2">${escapeHtml(merchant.description)}</div>` : ''}
+      <div class="flex justify-between items-center mt-2">
+        <div class="flex gap-2">
+          <img
+            src="https://btcmap.org/icons/${accepts('onchain') ? 'btc-primary' : 'btc'}.svg"
+            alt="Bitcoin payments"
+            class="w-6 h-6"
+          />
+          <img
+            src="https://btcmap.org/icons/${accepts('lightning') ? 'ln-primary' : 'ln'}.svg"
+            alt="Lightning payments"
+            class="w-6 h-6"
+          />
+          <img
+            src="https://btcmap.org/icons/${accepts('lightning_contactless') ? 'nfc-primary' : 'nfc'}.svg"
+            alt="Contactless payments"
+            class="w-6 h-6"
+          />
+        </div>
+        <div class="flex gap-2">
+          ${payButton}
+          <a href="javascript:void(0)"
+             onclick="window.location.href = '${getNavigationUrl(lat, lng)}'"
+             class="inline-flex items-center justify-center w-8 h-8 rounded-full bg-white hover:bg-gray-100">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+              <path d="M12 22s-8-4.5-8-11.8A8 8 0 0 1 12 2a8 8 0 0 1 8 8.2c0 7.3-8 11.8-8 11.8z"/>
+              <circle cx="12" cy="10" r="3"/>
+            </svg>
+          </a>
+        </div>
+      </div>
+    </div>`;
+}
+
 // Update the SearchAndLocate control to handle mobile positioning
 L.Control.SearchAndLocate = L.Control.extend({
   onAdd: function(map: L.Map) {
@@ -130,415 +274,237 @@ L.Control.SearchAndLocate = L.Control.extend({
   }
 });
 
+// Download the merchants in the current viewport in one of the export formats
+(L.Control as any).ExportMerchants = L.Control.extend({
+  onAdd: function(map: L.Map) {
+    const container = L.DomUtil.create('div', 'leaflet-bar leaflet-control');
+
+    const exportButton = L.DomUtil.create('a', '', container);
+    exportButton.href = '#';
+    exportButton.title = 'Export visible merchants';
+    exportButton.style.display = 'block';
+    exportButton.style.padding = '5px';
+    exportButton.innerHTML = `<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>`;
+
+    // Format menu (hidden by default)
+    const menu = L.DomUtil.create('div', '', container);
+    menu.style.display = 'none';
+    menu.style.backgroundColor = 'var(--background)';
+    menu.style.borderTop = '1px solid var(--border)';
+
+    for (const format of EXPORT_FORMATS) {
+      const link = L.DomUtil.create('a', '', menu);
+      link.href = '#';
+      link.textContent = format.toUpperCase();
+      link.style.display = 'block';
+      link.style.width = 'auto';
+      link.style.padding = '0 6px';
+      link.style.fontSize = '11px';
+      link.style.color = 'var(--foreground)';
+
+      // Point the link at the viewport as it is when clicked, the browser
+      // then downloads the file
+      L.DomEvent.on(link, 'click', function() {
+        const bounds = map.getBounds();
+        const bbox = [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()]
+          .map(value => value.toFixed(6))
+          .join(',');
+        link.href = `/api/export/merchants.${format}?bbox=${bbox}`;
+        link.setAttribute('download', `merchants.${format}`);
+        menu.style.display = 'none';
+      });
+    }
+
+    L.DomEvent.disableClickPropagation(container);
+    L.DomEvent.disableScrollPropagation(container);
+
+    L.DomEvent.on(exportButton, 'click', function(e) {
+      L.DomEvent.preventDefault(e);
+      menu.style.display = menu.style.display === 'block' ? 'none' : 'block';
+    });
+
+    return container;
+  }
+});
+
 // MapLayer component to handle MapLibre GL initialization
 function MapLayer() {
   const map = useMap();
   const { theme } = useTheme();
   const { toast } = useToast();
-  const markersRef = new Map<string, L.Marker>();
-  const MAX_NEW_MARKERS = 70;
-  const MAX_TOTAL_MARKERS = 300;
-  const GRID_SIZE = 5;
-
-  // Helper function to calculate distance from viewport center
-  const getDistanceFromViewport = (lat: number, lng: number) => {
-    const bounds = map.getBounds();
-    const center = bounds.getCenter();
-    return Math.sqrt(
-      Math.pow(center.lat - lat, 2) +
-      Math.pow(center.lng - lng, 2)
-    );
-  };
+  const markersRef = useRef(new Map<string, L.Marker>()).current;
+  const clusterMarkersRef = useRef(new Map<string, L.Marker>()).current;
 
-  // Helper function to remove distant markers
-  const removeDistantMarkers = useCallback(() => {
-    if (markersRef.size <= MAX_TOTAL_MARKERS) return;
-
-    const bounds = map.getBounds();
-    const center = bounds.getCenter();
-
-    // Create array of markers with their distances
-    const markersWithDistance = Array.from(markersRef.entries()).map(([id, marker]) => {
-      const pos = marker.getLatLng();
-      return {
-        id,
-        marker,
-        distance: getDistanceFromViewport(pos.lat, pos.lng)
-      };
-    });
+  // Viewport the merchant tiles are loaded for, updated when the map settles
+  const [viewport, setViewport] = useState(() => ({
+    bounds: map.getBounds(),
+    zoom: map.getZoom(),
+  }));
 
-    // Sort by distance (farthest first)
-    markersWithDistance.sort((a, b) => b.distance - a.distance);
+  useEffect(() => {
+    const handleMoveEnd = () => setViewport({ bounds: map.getBounds(), zoom: map.getZoom() });
+    map.on('moveend', handleMoveEnd);
+    return () => {
+      map.off('moveend', handleMoveEnd);
+    };
+  }, [map]);
 
-    // Remove markers until we're under the limit
-    const markersToRemove = markersWithDistance.slice(0, markersWithDistance.length - MAX_TOTAL_MARKERS);
-    markersToRemove.forEach(({ id, marker }) => {
-      map.removeLayer(marker);
-      markersRef.delete(id);
-    });
-  }, [map, markersRef]);
+  const tiles = useMemo(
+    () => getViewportTiles(viewport.bounds, viewport.zoom),
+    [viewport]
+  );
+  // Same zoom levels the server clusters at, so no level asks for clusters
+  // and gets points or the other way around
+  const clustered = Math.floor(viewport.zoom) <= CLUSTER_MAX_ZOOM;
+
+  // Fetch merchants per tile, tiles seen before are served from the query cache
+  const merchantTiles = useQueries({
+    queries: tiles.map(tile => ({
+      queryKey: [`/api/merchants?bbox=${tile.bbox.join(',')}&zoom=${tile.zoom}&limit=${TILE_POINT_LIMIT}`],
+      enabled: !clustered,
+    })),
+    combine: combineTileResults,
+  });
 
-  // Get all merchants data
-  const { data: merchantsData } = useQuery({
-    queryKey: ["/api/merchants"],
+  // At low zoom fetch clusters per tile instead, so dense areas are counted
+  // rather than dropped
+  const clusterTiles = useQueries({
+    queries: tiles.map(tile => ({
+      queryKey: [`/api/merchants/clusters?bbox=${tile.bbox.join(',')}&zoom=${tile.zoom}`],
+      enabled: clustered,
+    })),
+    combine: combineClusterResults,
   });
 
-  // Extract individual merchant lists
-  const btcMapMerchants = merchantsData?.btcmap || [];
-  const blinkMerchants = merchantsData?.blink || [];
-  const bitcoinJungleMerchants = merchantsData?.bitcoinjungle || [];
+  const merchants = clustered ? clusterTiles.points : merchantTiles.merchants;
+  const clusters = clustered ? clusterTiles.clusters : NO_CLUSTERS;
+  const isFetched = clustered ? clusterTiles.isFetched : merchantTiles.isFetched;
+  const health = clustered ? clusterTiles.health : merchantTiles.health;
+
+  // Tell users when a source is down instead of silently showing fewer pins,
+  // once per outage
+  const unavailable = health && Object.values(health)
+    .filter(source => source.status === 'unavailable')
+    .map(source => source.name)
+    .join(', ');
+  const reportedUnavailableRef = useRef('');
+  useEffect(() => {
+    // Keep the last report while tiles are still loading
+    if (unavailable === undefined) return;
+    if (unavailable && unavailable !== reportedUnavailableRef.current) {
+      toast({
+        variant: "destructive",
+        description: `${unavailable} data unavailable`,
+      });
+    }
+    reportedUnavailableRef.current = unavailable;
+  }, [unavailable, toast]);
 
-  const updateVisibleMarkers = useCallback(() => {
-    if (!map) return;
+  // Tiles denser than the point limit come back thinned out, say so rather
+  // than leave users thinking the missing merchants don't exist
+  const truncated = !clustered && isFetched && merchantTiles.truncated;
+  const reportedTruncatedRef = useRef(false);
+  useEffect(() => {
+    if (truncated && !reportedTruncatedRef.current) {
+      toast({
+        description: "Too many merchants here to show them all, zoom in to see more",
+      });
+    }
+    reportedTruncatedRef.current = truncated;
+  }, [truncated, toast]);
 
-    const bounds = map.getBounds();
-
-    // Apply deduplication and get matches
-    const { 
-      blinkMerchants: uniqueBlinkMerchants, 
-      bitcoinJungleMerchants: uniqueBitcoinJungleMerchants, 
-      stats,
-      blinkBtcMapMatches 
-    } = deduplicateMerchants(
-      btcMapMerchants,
-      blinkMerchants,
-      bitcoinJungleMerchants
-    );
-
-    // Find matching Blink merchant for a BTCMap ID
-    const getMatchingBlinkMerchant = (btcMapId: string) => {
-      const blinkUsername = Object.entries(blinkBtcMapMatches)
-        .find(([_, matchedBtcMapId]) => matchedBtcMapId === btcMapId)?.[0];
-      if (blinkUsername) {
-        return blinkMerchants.find(m => m.username === blinkUsername);
-      }
-      return null;
-    };
+  // Enabled sources in marker priority order
+  const { data: sources = [] } = useQuery<SourceInfo[]>({
+    queryKey: ["/api/sources"],
+  });
 
-    // Log deduplication stats
-    console.log('Deduplication stats:', stats);
-
-    // Create grid system
-    const latSpan = bounds.getNorth() - bounds.getSouth();
-    const lngSpan = bounds.getEast() - bounds.getWest();
-    const cellLatSize = latSpan / GRID_SIZE;
-    const cellLngSize = lngSpan / GRID_SIZE;
-    const grid: Array<{
-      merchant: any;
-      source: 'btcmap' | 'blink' | 'bitcoinjungle';
-      cell: string;
-    }> = [];
-
-    // Process BTCMap merchants
-    btcMapMerchants
-      .filter(merchant => !merchant.osm_json?.tags?.deleted_at && !merchant.deleted_at)
-      .forEach(merchant => {
-        if (!merchant.osm_json?.lat || !merchant.osm_json?.lon) return;
-        const lat = merchant.osm_json.lat;
-        const lng = merchant.osm_json.lon;
-        if (bounds.contains([lat, lng])) {
-          const cellRow = Math.floor((lat - bounds.getSouth()) / cellLatSize);
-          const cellCol = Math.floor((lng - bounds.getWest()) / cellLngSize);
-          const cell = `${cellRow}-${cellCol}`;
-          grid.push({ merchant, source: 'btcmap', cell });
-        }
-      });
+  const updateVisibleMarkers = useCallback(() => {
+    if (!map) return;
 
-    // Process unique Blink merchants
-    uniqueBlinkMerchants.forEach(marker => {
-      const { coordinates, title } = marker.mapInfo;
-      const lat = coordinates.latitude;
-      const lng = coordinates.longitude;
-      if (bounds.contains([lat, lng])) {
-        const cellRow = Math.floor((lat - bounds.getSouth()) / cellLatSize);
-        const cellCol = Math.floor((lng - bounds.getWest()) / cellLngSize);
-        const cell = `${cellRow}-${cellCol}`;
-        grid.push({ merchant: marker, source: 'blink', cell });
+    const sourcesById = new Map(sources.map(source => [source.id, source]));
+
+    // Show exactly the merchants of the loaded tiles, removing ones that
+    // left the viewport or were folded into a cluster. Duplicates of BTCMap
+    // merchants are already removed by the server.
+    const visibleIds = new Set<string>();
+    merchants.forEach(merchant => {
+      const source = sourcesById.get(merchant.source);
+      if (!source) return;
+      visibleIds.add(merchant.id);
+
+      if (!markersRef.has(merchant.id)) {
+        const marker = L.marker([merchant.latitude, merchant.longitude], { icon: getSourceIcon(source) })
+          .bindPopup(createPopupContent(merchant, source))
+          .addTo(map);
+        markersRef.set(merchant.id, marker);
       }
     });
-
-    // Process unique Bitcoin Jungle merchants
-    uniqueBitcoinJungleMerchants.forEach(merchant => {
-      const lat = merchant.coordinates?.latitude;
-      const lng = merchant.coordinates?.longitude;
-      if (lat && lng && bounds.contains([lat, lng])) {
-        const cellRow = Math.floor((lat - bounds.getSouth()) / cellLatSize);
-        const cellCol = Math.floor((lng - bounds.getWest()) / cellLngSize);
-        const cell = `${cellRow}-${cellCol}`;
-        grid.push({ merchant, source: 'bitcoinjungle', cell });
+    Array.from(markersRef.entries()).forEach(([id, marker]) => {
+      if (!visibleIds.has(id)) {
+        map.removeLayer(marker);
+        markersRef.delete(id);
       }
     });
 
-    // Group markers by cell
-    const newMarkersGroups = grid.reduce((acc, item) => {
-      if (!acc[item.cell]) {
-        acc[item.cell] = {
-          blink: [],
-          btcmap: [],
-          bitcoinjungle: [],
-        };
+    // Cluster ids include the zoom level, so zooming replaces all of them
+    const clusterIds = new Set(clusters.map(cluster => cluster.id));
+    clusters.forEach(cluster => {
+      if (clusterMarkersRef.has(cluster.id)) return;
+
+      const marker = L.marker([cluster.latitude, cluster.longitude], {
+        icon: createClusterIcon(cluster, sourcesById),
+        title: Object.entries(cluster.sources)
+          .map(([id, count]) => `${sourcesById.get(id)?.name || id}: ${count}`)
+          .join(', '),
+      })
+        .on('click', () => {
+          map.flyTo([cluster.latitude, cluster.longitude], Math.min(map.getZoom() + 2, CLUSTER_MAX_ZOOM + 1));
+        })
+        .addTo(map);
+      clusterMarkersRef.set(cluster.id, marker);
+    });
+    Array.from(clusterMarkersRef.entries()).forEach(([id, marker]) => {
+      if (!clusterIds.has(id)) {
+        map.removeLayer(marker);
+        clusterMarkersRef.delete(id);
       }
-      acc[item.cell][item.source].push(item);
-      return acc;
-    }, {} as Record<string, Record<'blink' | 'btcmap' | 'bitcoinjungle', typeof grid>>);
-
-    // Add new markers up to the limit
-    let addedCount = 0;
-    Object.values(newMarkersGroups).forEach(cellSources => {
-      if (addedCount >= MAX_NEW_MARKERS) return;
-
-      ['bitcoinjungle', 'blink', 'btcmap'].forEach(source => {
-        if (addedCount >= MAX_NEW_MARKERS) return;
-
-        const markers = cellSources[source as 'bitcoinjungle' | 'blink' | 'btcmap'];
-        markers.forEach(({ merchant, source }) => {
-          if (addedCount >= MAX_NEW_MARKERS) return;
-
-          let lat, lng, id, details, icon;
-
-          switch (source) {
-            case 'bitcoinjungle':
-              lat = merchant.coordinates.latitude;
-              lng = merchant.coordinates.longitude;
-              id = `bitcoinjungle-${merchant.id}`;
-              details = `
-                <div class="text-center min-w-[280px]">
-                  <img
-                    src="/images/bitcoinjungle.png"
-                    alt="Bitcoin Jungle Logo"
-                    class="w-12 h-12 mx-auto mb-2 object-contain"
-                  />
-                  <strong>${merchant.name}</strong><br/>
-                  ${merchant.categories?.map((cat: any) => cat.name).join(', ')}<br/>
-                  ${merchant.phone ? `📞 ${merchant.phone}<br/>` : ''}
-                  ${merchant.website ? `🌐 <a href="${merchant.website}" target="_blank" rel="noopener noreferrer" class="text-blue-500 hover:underline">${truncateUrl(merchant.website)}</a><br/>` : ''}
-                  ${merchant.description ? `<div class="mt-2">${merchant.description}</div>` : ''}
-                  <div class="flex justify-between items-center mt-2">
-                    <div class="flex gap-2">
-                      <img
-                        src="https://btcmap.org/icons/ln-primary.svg"
-                        alt="Lightning Network enabled"
-                        class="w-6 h-6"
-                      />
-                    </div>
-                    <a href="javascript:void(0)"
-                       onclick="window.location.href = '${getNavigationUrl(lat, lng)}'"
-                       class="inline-flex items-center justify-center w-8 h-8 rounded-full bg-white hover:bg-gray-100">
-                      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-                        <path d="M12 22s-8-4.5-8-11.8A8 8 0 0 1 12 2a8 8 0 0 1 8 8.2c0 7.3-8 11.8-8 11.8z"/>
-                        <circle cx="12" cy="10" r="3"/>
-                      </svg>
-                    </a>
-                  </div>
-                </div>`;
-              icon = bitcoinJungleIcon;
-              break;
-
-            case 'blink':
-              lat = merchant.mapInfo.coordinates.latitude;
-              lng = merchant.mapInfo.coordinates.longitude;
-              id = `blink-${merchant.username}`;
-              details = `
-                <div class="text-center min-w-[280px]">
-                  <img
-                    src="/images/blink.png"
-                    alt="Blink Logo"
-                    class="w-12 h-12 mx-auto mb-2 object-contain"
-                  />
-                  <strong>${merchant.mapInfo.title}</strong><br/>
-                  <span>@${merchant.username}</span><br/>
-                  <div class="flex justify-between items-center mt-2">
-                    <div class="flex gap-2">
-                      <img
-                        src="https://btcmap.org/icons/ln-primary.svg"
-                        alt="Lightning Network enabled"
-                        class="w-6 h-6"
-                      />
-                    </div>
-                    <div class="flex gap-2">
-                      <a href="https://pay.blink.sv/${merchant.username}"
-                         target="_blank"
-                         rel="noopener noreferrer"
-                         class="inline-flex items-center justify-center w-8 h-8 rounded-full bg-white hover:bg-gray-100">
-                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-                          <rect x="2" y="5" width="20" height="14" rx="2"/>
-                          <line x1="2" y1="10" x2="22" y2="10"/>
-                        </svg>
-                      </a>
-                      <a href="javascript:void(0)"
-                         onclick="window.location.href = '${getNavigationUrl(lat, lng)}'"
-                         class="inline-flex items-center justify-center w-8 h-8 rounded-full bg-white hover:bg-gray-100">
-                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-                          <path d="M12 22s-8-4.5-8-11.8A8 8 0 0 1 12 2a8 8 0 0 1 8 8.2c0 7.3-8 11.8-8 11.8z"/>
-                          <circle cx="12" cy="10" r="3"/>
-                        </svg>
-                      </a>
-                    </div>
-                  </div>
-                </div>`;
-              icon = blinkIcon;
-              break;
-
-            case 'btcmap':
-              lat = merchant.osm_json.lat;
-              lng = merchant.osm_json.lon;
-              id = `btcmap-${merchant.id}`;
-              const tags = merchant.osm_json?.tags || {};
-              const address = [
-                tags['addr:street'],
-                tags['addr:housenumber'],
-                tags['addr:city'],
-                tags['addr:country']
-              ].filter(Boolean).join(', ');
-              const type = tags.amenity || tags.shop || tags.tourism || tags.leisure || 'Other';
-              const phone = tags.phone || tags['contact:phone'];
-              const website = tags.website || tags['contact:website'];
-              const openingHours = tags['opening_hours'];
-              const lastSurveyed = tags['survey:date'] || null;
-              const paymentMethods = {
-                bitcoin: tags['payment:bitcoin'],
-                lightning: tags['payment:lightning'],
-                contactless: tags['payment:contactless']
-              };
-
-              // Check if there's a matching Blink merchant
-              const matchingBlinkMerchant = getMatchingBlinkMerchant(merchant.id);
-              const blinkPaymentButton = matchingBlinkMerchant ? `
-                <a href="https://pay.blink.sv/${matchingBlinkMerchant.username}"
-                   target="_blank"
-                   rel="noopener noreferrer"
-                   class="inline-flex items-center justify-center w-8 h-8 rounded-full bg-white hover:bg-gray-100">
-                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-                    <rect x="2" y="5" width="20" height="14" rx="2"/>
-                    <line x1="2" y1="10" x2="22" y2="10"/>
-                  </svg>
-                </a>
-              ` : '';
-
-              details = `
-                <div class="text-center min-w-[280px]">
-                  <img
-                    src="https://btcmap.org/images/logo.svg"
-                    alt="BTCMap Logo"
-                    class="w-12 h-12 mx-auto mb-2 object-contain"
-                  />
-                  <strong>${merchant.osm_json?.tags?.name || 'Unknown Merchant'}</strong><br/>
-                  <em>${type}</em><br/>
-                  ${address ? `📍 ${address}<br/>` : ''}
-                  ${phone ? `📞 ${phone}<br/>` : ''}
-                  ${website ? `🌐 <a href="${website}" target="_blank" rel="noopener noreferrer" class="text-blue-500 hover:underline">${truncateUrl(website)}</a><br/>` : ''}
-                  ${openingHours ? `⏰ ${openingHours}<br/>` : ''}
-                  ${lastSurveyed ? `📅 Last surveyed: ${lastSurveyed}<br/>` : ''}
-                  <div class="flex justify-between items-center mt-2">
-                    <div class="flex gap-2">
-                      <img
-                        src="https://btcmap.org/icons/${paymentMethods.bitcoin === 'yes' ? 'btc-primary' : 'btc'}.svg"
-                        alt="Bitcoin payments"
-                        class="w-6 h-6"
-                      />
-                      <img
-                        src="https://btcmap.org/icons/${paymentMethods.lightning === 'yes' ? 'ln-primary' : 'ln'}.svg"
-                        alt="Lightning payments"
-                        class="w-6 h-6"
-                      />
-                      <img
-                        src="https://btcmap.org/icons/${paymentMethods.contactless === 'yes' ? 'nfc-primary' : 'nfc'}.svg"
-                        alt="Contactless payments"
-                        class="w-6 h-6"
-                      />
-                    </div>
-                    <div class="flex gap-2">
-                      ${blinkPaymentButton}
-                      <a href="javascript:void(0)"
-                         onclick="window.location.href = '${getNavigationUrl(lat, lng)}'"
-                         class="inline-flex items-center justify-center w-8 h-8 rounded-full bg-white hover:bg-gray-100">
-                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-                          <path d="M12 22s-8-4.5-8-11.8A8 8 0 0 1 12 2a8 8 0 0 1 8 8.2c0 7.3-8 11.8-8 11.8z"/>
-                          <circle cx="12" cy="10" r="3"/>
-                        </svg>
-                      </a>
-                    </div>
-                  </div>
-                </div>`;
-              icon = btcmapIcon;
-              break;
-          }
-
-          if (!markersRef.has(id)) {
-            const marker = L.marker([lat, lng], { icon })
-              .bindPopup(details)
-              .addTo(map);
-            markersRef.set(id, marker);
-            addedCount++;
-          }
-        });
-      });
     });
+  }, [map, merchants, clusters, sources, markersRef, clusterMarkersRef]);
 
-    // After adding new markers, check if we need to remove distant ones
-    removeDistantMarkers();
-  }, [map, btcMapMerchants, blinkMerchants, bitcoinJungleMerchants, markersRef, removeDistantMarkers]);
-
-  // Initialize markers and set up map event listeners
+  // Swap markers once every tile of the new viewport has loaded, so panning
+  // doesn't blank out areas that are still being fetched
   useEffect(() => {
-    if (!map) return;
-
-    const throttledUpdate = L.Util.throttle(() => updateVisibleMarkers(), 500, { leading: true });
-
-    console.log('Merchant data received:', {
-      btcMap: btcMapMerchants.length,
-      blink: blinkMerchants.length,
-      bitcoinJungle: bitcoinJungleMerchants.length
-    });
+    if (!isFetched) return;
+    updateVisibleMarkers();
+  }, [isFetched, updateVisibleMarkers]);
 
-    map.on('moveend', throttledUpdate);
-    map.on('zoomend', throttledUpdate);
+  // Credit every enabled data source in the map attribution
+  useEffect(() => {
+    if (!map?.attributionControl) return;
 
-    // Initial update
-    updateVisibleMarkers();
+    const attributions = sources.map(source => source.attribution || source.name);
+    attributions.forEach(text => map.attributionControl.addAttribution(text));
 
     return () => {
-      map.off('moveend', throttledUpdate);
-      map.off('zoomend', throttledUpdate);
+      attributions.forEach(text => map.attributionControl.removeAttribution(text));
     };
-  }, [map, merchantsData, updateVisibleMarkers]);
-
-  // Function to handle search
-  const handleSearch = useCallback((query: string, resultsContainer: HTMLDivElement) => {
-    const searchResults: Array<{
-      name: string;
-      type: 'local' | 'btcmap' | 'blink' | 'bitcoinjungle';
-      lat: number;
-      lng: number;
-    }> = [];
-
-    // Search in local merchants (This part needs to be adjusted based on the new data structure)
-    // Assuming localMerchants is still available in the new data structure.  Adjust accordingly.
-
-    // Search in BTCMap merchants
-    btcMapMerchants.forEach(merchant => {
-      const name = merchant.osm_json?.tags?.name || '';
-      if (name.toLowerCase().includes(query)) {
-        searchResults.push({
-          name,
-          type: 'btcmap',
-          lat: merchant.osm_json.lat,
-          lng: merchant.osm_json.lon
-        });
-      }
-    });
+  }, [map, sources]);
 
-    // Search in Blink merchants
-    blinkMerchants.forEach(merchant => {
-      if (merchant.mapInfo.title.toLowerCase().includes(query)) {
-        searchResults.push({
-          name: merchant.mapInfo.title,
-          type: 'blink',
-          lat: merchant.mapInfo.coordinates.latitude,
-          lng: merchant.mapInfo.coordinates.longitude
-        });
-      }
-    });
+  // Function to handle search, names are matched worldwide on the server
+  const latestSearchRef = useRef('');
+  const handleSearch = useCallback(async (query: string, resultsContainer: HTMLDivElement) => {
+    latestSearchRef.current = query;
+
+    let searchResults: Merchant[] = [];
+    try {
+      const res = await apiRequest("GET", `/api/merchants?q=${encodeURIComponent(query)}&limit=${SEARCH_RESULT_LIMIT}`);
+      searchResults = (await res.json()).merchants;
+    } catch (error) {
+      console.error('Merchant search failed:', error);
+    }
+
+    // Drop responses that arrive after the user kept typing
+    if (latestSearchRef.current !== query) return;
 
     // Display results
     resultsContainer.innerHTML = '';
@@ -551,8 +517,8 @@ function MapLayer() {
       resultItem.style.borderBottom = '1px solid var(--border)';
       resultItem.style.color = 'var(--foreground)';
       resultItem.innerHTML = `
-        <div style="font-weight: bold;">${result.name}</div>
-        <div style="color: var(--muted-foreground); font-size: 0.9em;">${result.type}</div>
+        <div style="font-weight: bold;">${escapeHtml(result.name)}</div>
+        <div style="color: var(--muted-foreground); font-size: 0.9em;">${escapeHtml(result.source)}</div>
       `;
 
       resultItem.addEventListener('mouseover', () => {
@@ -564,13 +530,13 @@ function MapLayer() {
       });
 
       resultItem.addEventListener('click', () => {
-        map.flyTo([result.lat, result.lng], 16);
+        map.flyTo([result.latitude, result.longitude], 16);
         resultsContainer.style.display = 'none';
       });
 
       resultsContainer.appendChild(resultItem);
     });
-  }, [btcMapMerchants, blinkMerchants]);
+  }, [map]);
 
   useEffect(() => {
     const style = theme === 'dark'
@@ -600,11 +566,16 @@ function MapLayer() {
       onSearch: handleSearch
     });
 
+    const exportControl = new (L.Control as any).ExportMerchants({
+      position: 'topleft'
+    });
+
     if (!isDestroyed && map) {
       try {
         map.addControl(searchAndLocateControl);
+        map.addControl(exportControl);
       } catch (error) {
-        console.warn('Error adding search control:', error);
+        console.warn('Error adding map controls:', error);
       }
     }
 
@@ -654,13 +625,14 @@ function MapLayer() {
         }
       }
 
-      // Remove control with proper checks
+      // Remove controls with proper checks
       if (map && searchAndLocateControl) {
         try {
           map.removeControl(searchAndLocateControl);
+          map.removeControl(exportControl);
         } catch (error) {
           if (error instanceof Error && error.name !== 'AbortError') {
-            console.warn('Error removing search control:', error);
+            console.warn('Error removing map controls:', error);
           }
         }
       }
@@ -681,9 +653,13 @@ L.Icon.Default.mergeOptions({
 interface MapViewProps {
   selectedLocation: { lat: number; lng: number } | null;
   onLocationSelect: (location: { lat: number; lng: number }) => void;
+  // Called with the visible area whenever the map stops moving
+  onBoundsChange?: (bounds: L.LatLngBounds) => void;
+  // The map flies here whenever a new location object is passed
+  focusLocation?: { lat: number; lng: number } | null;
 }
 
-function LocationMarker({ selectedLocation, onLocationSelect }: MapViewProps) {
+function LocationMarker({ selectedLocation, onLocationSelect }: Pick<MapViewProps, 'selectedLocation' | 'onLocationSelect'>) {
   const map = useMapEvents({
     click(e) {
       onLocationSelect(e.latlng);
@@ -707,22 +683,7 @@ function LocationMarker({ selectedLocation, onLocationSelect }: MapViewProps) {
 }
 
 // Add custom icon definitions
-const createCustomIcon = (type: 'blink' | 'btcmap' | 'default' | 'bitcoinjungle') => {
-  let color: string;
-  switch (type) {
-    case 'blink':
-      color = '#FB5607'; // orange
-      break;
-    case 'btcmap':
-      color = '#0891B2'; // cyan
-      break;
-    case 'bitcoinjungle':
-      color = '#75B5A2'; // sage green
-      break;
-    default:
-      color = '#10B981'; // green
-  }
-
+const createCustomIcon = (type: string, color: string) => {
   return L.divIcon({
     className: `custom-marker marker-${type}`,
     html: `<div style="background-color: ${color}; width: 24px; height: 24px; border-radius: 50%; border: 2px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0,0.3);"></div>`,
@@ -732,12 +693,59 @@ const createCustomIcon = (type: 'blink' | 'btcmap' | 'default' | 'bitcoinjungle'
   });
 };
 
-const blinkIcon = createCustomIcon('blink');
-const btcmapIcon = createCustomIcon('btcmap');
-const defaultIcon = createCustomIcon('default');
-const bitcoinJungleIcon = createCustomIcon('bitcoinjungle');
+// Circle sized by merchant count, in the source colour when the cluster
+// only holds one source
+function createClusterIcon(cluster: MerchantCluster, sourcesById: Map<string, SourceInfo>): L.DivIcon {
+  const sourceIds = Object.keys(cluster.sources);
+  const color = sourceIds.length === 1 ? sourcesById.get(sourceIds[0])?.color || '#F7931A' : '#F7931A';
+  const size = Math.round(28 + 8 * Math.log10(cluster.count));
+  const label = cluster.count >= 10000 ? `${Math.round(cluster.count / 1000)}k` : String(cluster.count);
+
+  return L.divIcon({
+    className: 'custom-marker marker-cluster',
+    html: `<div style="background-color: ${color}; width: ${size}px; height: ${size}px; border-radius: 50%; border: 2px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0.3); color: white; font-weight: bold; font-size: 12px; display: flex; align-items: center; justify-content: center;">${label}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+}
+
+// One icon per source, created on first use
+const sourceIcons = new Map<string, L.DivIcon>();
+function getSourceIcon(source: SourceInfo): L.DivIcon {
+  let icon = sourceIcons.get(source.id);
+  if (!icon) {
+    icon = createCustomIcon(source.id, source.color);
+    sourceIcons.set(source.id, icon);
+  }
+  return icon;
+}
+
+function BoundsListener({ onBoundsChange }: { onBoundsChange: (bounds: L.LatLngBounds) => void }) {
+  const map = useMapEvents({
+    moveend() {
+      onBoundsChange(map.getBounds());
+    },
+  });
+
+  useEffect(() => {
+    onBoundsChange(map.getBounds());
+  }, [map, onBoundsChange]);
+
+  return null;
+}
+
+// Fly to a searched location, zooming in to street level like search results do
+function FocusLocation({ location }: { location: { lat: number; lng: number } }) {
+  const map = useMap();
+
+  useEffect(() => {
+    map.flyTo(location, Math.max(map.getZoom(), 16));
+  }, [map, location]);
+
+  return null;
+}
 
-export default function MapView({ selectedLocation, onLocationSelect }: MapViewProps) {
+export default function MapView({ selectedLocation, onLocationSelect, onBoundsChange, focusLocation }: MapViewProps) {
   return (
     <MapContainer
       center={[13.7942, -88.8965]}
@@ -749,6 +757,8 @@ export default function MapView({ selectedLocation, onLocationSelect }: MapViewP
         selectedLocation={selectedLocation}
         onLocationSelect={onLocationSelect}
       />
+      {onBoundsChange && <BoundsListener onBoundsChange={onBoundsChange} />}
+      {focusLocation && <FocusLocation location={focusLocation} />}
     </MapContainer>
   );
 }
\ No newline at end of file
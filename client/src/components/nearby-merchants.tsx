@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { AlertTriangle, ExternalLink, MapPin } from "lucide-react";
+import type { DuplicateCandidate } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+
+// Wait for a pause in typing before ranking by the new name
+const NAME_DEBOUNCE_MS = 300;
+
+interface NearbyMerchantsProps {
+  latitude: number;
+  longitude: number;
+  name: string;
+  onSamePlace: (merchant: DuplicateCandidate) => void;
+}
+
+// BTCMap merchants are OpenStreetMap elements, edited in the OSM editor
+function getEditUrl(merchant: DuplicateCandidate): string | null {
+  if (merchant.source !== "btcmap") return null;
+  const [type, id] = merchant.sourceId.split(":");
+  return type && id ? `https://www.openstreetmap.org/edit?${type}=${id}` : null;
+}
+
+// Known merchants around the selected point, shown while the suggestion is
+// filled in so people notice when theirs is already on the map
+export function NearbyMerchants({ latitude, longitude, name, onSamePlace }: NearbyMerchantsProps) {
+  const [debouncedName, setDebouncedName] = useState(name);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedName(name.trim()), NAME_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [name]);
+
+  const params = new URLSearchParams({ lat: String(latitude), lng: String(longitude) });
+  if (debouncedName) params.set("name", debouncedName);
+
+  const { data } = useQuery<{ merchants: DuplicateCandidate[]; threshold: number }>({
+    queryKey: [`/api/merchants/nearby?${params}`],
+    enabled: Boolean(latitude && longitude),
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000,
+  });
+
+  const merchants = data?.merchants ?? [];
+  if (!merchants.length) return null;
+
+  const likely = merchants.some(merchant => merchant.score >= data!.threshold);
+
+  return (
+    <div className={`rounded-md border p-3 space-y-3 ${likely ? "border-amber-500 bg-amber-50 dark:bg-amber-950/30" : ""}`}>
+      <div className="flex items-start gap-2">
+        {likely ? (
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-none text-amber-600" />
+        ) : (
+          <MapPin className="h-4 w-4 mt-0.5 flex-none text-muted-foreground" />
+        )}
+        <p className="text-sm">
+          {likely ? "This merchant may already be on the map" : "Merchants already on the map nearby"}
+        </p>
+      </div>
+
+      <ul className="space-y-2">
+        {merchants.map(merchant => {
+          const editUrl = getEditUrl(merchant);
+          const similar = merchant.score >= data!.threshold;
+          return (
+            <li key={merchant.id} className="space-y-1">
+              <p className={`text-sm ${similar ? "font-semibold" : ""}`}>{merchant.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {[merchant.address, `${Math.round(merchant.distance)} m away`, merchant.source].filter(Boolean).join(" · ")}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button type="button" size="sm" variant="secondary" onClick={() => onSamePlace(merchant)}>
+                  This is the same place
+                </Button>
+                {editUrl && (
+                  <Button type="button" size="sm" variant="outline" asChild>
+                    <a href={editUrl} target="_blank" rel="noopener noreferrer">
+                      Suggest an edit instead
+                      <ExternalLink className="ml-1 h-3 w-3" />
+                    </a>
+                  </Button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import type L from "leaflet";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { History, MapPin, Minus, Pencil, Plus, X } from "lucide-react";
+import type { MerchantChange, MerchantChangeType, SourceInfo } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+// Most recent changes listed in the panel
+const CHANGES_LIMIT = 100;
+
+const CHANGE_LABELS: Record<MerchantChangeType, { label: string; icon: typeof Plus; className: string }> = {
+  added: { label: "Added", icon: Plus, className: "text-green-600" },
+  removed: { label: "Removed", icon: Minus, className: "text-red-600" },
+  moved: { label: "Moved", icon: MapPin, className: "text-amber-600" },
+  renamed: { label: "Renamed", icon: Pencil, className: "text-blue-600" },
+};
+
+function describeChange(change: MerchantChange): string {
+  switch (change.type) {
+    case "renamed":
+      return `Renamed from ${change.previousName}`;
+    case "moved":
+      return "Moved to a new location";
+    default:
+      return CHANGE_LABELS[change.type].label;
+  }
+}
+
+interface RecentChangesProps {
+  bounds: L.LatLngBounds | null; // Visible area of the map
+}
+
+// Merchants in the visible area added, removed, moved or renamed across all
+// sources in the last week
+export function RecentChanges({ bounds }: RecentChangesProps) {
+  const [open, setOpen] = useState(false);
+
+  // Rounded to about 10 m so tiny pans reuse the cached answer
+  const bbox = bounds
+    ? [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()].map(value => value.toFixed(4)).join(',')
+    : null;
+  const { data, isLoading, isError } = useQuery<{ changes: MerchantChange[] }>({
+    queryKey: [`/api/changes?limit=${CHANGES_LIMIT}&bbox=${bbox}`],
+    enabled: open && bbox !== null,
+    staleTime: 5 * 60 * 1000,
+    placeholderData: keepPreviousData,
+  });
+  const { data: sources = [] } = useQuery<SourceInfo[]>({
+    queryKey: ["/api/sources"],
+  });
+  const sourceInfo = new Map(sources.map(source => [source.id, source]));
+
+  if (!open) {
+    return (
+      <Button
+        variant="secondary"
+        onClick={() => setOpen(true)}
+        className="rounded-full shadow-lg"
+      >
+        <History className="mr-2 h-4 w-4" />
+        Recent changes
+      </Button>
+    );
+  }
+
+  const changes = data?.changes ?? [];
+
+  return (
+    <Card className="w-80 shadow-lg">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold">Recent changes</h2>
+          <Button variant="ghost" size="icon" onClick={() => setOpen(false)}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">Close</span>
+          </Button>
+        </div>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading changes...</p>}
+        {isError && <p className="text-sm text-muted-foreground">Changes could not be loaded.</p>}
+        {data && changes.length === 0 && (
+          <p className="text-sm text-muted-foreground">No merchants in this area changed in the last 7 days.</p>
+        )}
+
+        {changes.length > 0 && (
+          <ScrollArea className="h-80 pr-3">
+            <ul className="space-y-3">
+              {changes.map(change => {
+                const { icon: Icon, className } = CHANGE_LABELS[change.type];
+                const source = sourceInfo.get(change.source);
+                return (
+                  <li key={`${change.merchantId}-${change.type}-${change.detectedAt}`} className="flex gap-2">
+                    <Icon className={`h-4 w-4 mt-0.5 flex-none ${className}`} />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{change.name}</p>
+                      <p className="text-xs text-muted-foreground">{describeChange(change)}</p>
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        <span
+                          className="inline-block h-2 w-2 rounded-full"
+                          style={{ backgroundColor: source?.color }}
+                        />
+                        {source?.name ?? change.source}
+                        {" · "}
+                        {formatDistanceToNow(new Date(change.detectedAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
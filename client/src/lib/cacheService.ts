@@ -1,7 +1,8 @@
 import { openDB, IDBPDatabase } from 'idb';
 
 const DB_NAME = 'bitcoin-merchants-cache';
-const DB_VERSION = 1;
+const DB_VERSION = 3; // v3: single merchants store indexed by source
+const MERCHANTS_STORE = 'merchants';
 const CACHE_EXPIRY = 24 * 60 * 60 * 1000; // 24 hours
 const MAX_CACHE_SIZE = 50 * 1024 * 1024; // 50MB
 
@@ -34,19 +35,27 @@ class CacheService {
     });
   }
 
+  get initialized(): boolean {
+    return this.db !== null;
+  }
+
   async init() {
     try {
       this.db = await openDB(DB_NAME, DB_VERSION, {
-        upgrade(db) {
-          // Create stores if they don't exist
-          if (!db.objectStoreNames.contains('btcmap')) {
-            db.createObjectStore('btcmap', { keyPath: 'id' });
-          }
-          if (!db.objectStoreNames.contains('blink')) {
-            db.createObjectStore('blink', { keyPath: 'username' });
+        upgrade(db, oldVersion) {
+          // Per-source stores from v1/v2 are replaced by one store for all sources
+          if (oldVersion < 3) {
+            for (const store of ['btcmap', 'blink', 'bitcoinjungle']) {
+              if (db.objectStoreNames.contains(store)) {
+                db.deleteObjectStore(store);
+              }
+            }
           }
-          if (!db.objectStoreNames.contains('bitcoinjungle')) {
-            db.createObjectStore('bitcoinjungle', { keyPath: 'id' });
+
+          // Create stores if they don't exist
+          if (!db.objectStoreNames.contains(MERCHANTS_STORE)) {
+            const store = db.createObjectStore(MERCHANTS_STORE, { keyPath: 'id' });
+            store.createIndex('source', 'source');
           }
           if (!db.objectStoreNames.contains('metadata')) {
             db.createObjectStore('metadata', { keyPath: 'id' });
@@ -105,19 +114,12 @@ class CacheService {
 
     if (this.metadata.totalSize > MAX_CACHE_SIZE) {
       // Get all entries sorted by last access
-      const stores = ['btcmap', 'blink', 'bitcoinjungle'];
-      let allEntries: { store: string; key: any; size: number; lastAccess: number }[] = [];
-
-      for (const store of stores) {
-        const entries = await this.db.getAll(store);
-        const storeEntries = entries.map(entry => ({
-          store,
-          key: entry.id || entry.username,
-          size: JSON.stringify(entry).length,
-          lastAccess: entry.lastAccess || 0
-        }));
-        allEntries = allEntries.concat(storeEntries);
-      }
+      const entries = await this.db.getAll(MERCHANTS_STORE);
+      const allEntries = entries.map(entry => ({
+        key: entry.id,
+        size: JSON.stringify(entry).length,
+        lastAccess: entry.lastAccess || 0
+      }));
 
       // Sort by last access (oldest first)
       allEntries.sort((a, b) => a.lastAccess - b.lastAccess);
@@ -126,7 +128,7 @@ class CacheService {
       let currentSize = this.metadata.totalSize;
       for (const entry of allEntries) {
         if (currentSize <= MAX_CACHE_SIZE * 0.8) break; // Leave 20% buffer
-        await this.db.delete(entry.store, entry.key);
+        await this.db.delete(MERCHANTS_STORE, entry.key);
         currentSize -= entry.size;
       }
 
@@ -134,16 +136,23 @@ class CacheService {
     }
   }
 
-  async syncData(source: 'btcmap' | 'blink' | 'bitcoinjungle', data: any[]) {
+  // Replace the cached merchants of one source
+  async syncData(source: string, data: any[]) {
     if (!this.db) throw new Error('Cache not initialized');
 
     try {
-      const tx = this.db.transaction(source, 'readwrite');
-      const store = tx.objectStore(source);
+      const tx = this.db.transaction(MERCHANTS_STORE, 'readwrite');
+      const store = tx.objectStore(MERCHANTS_STORE);
 
       // Calculate new data size
       const dataSize = JSON.stringify(data).length;
 
+      // Drop entries the source no longer returns
+      const staleKeys = await store.index('source').getAllKeys(source);
+      for (const key of staleKeys) {
+        await store.delete(key);
+      }
+
       // Update cache with new data
       for (const item of data) {
         await store.put({
@@ -151,6 +160,7 @@ class CacheService {
           lastAccess: Date.now()
         });
       }
+      await tx.done;
 
       // Update metadata
       await this.updateMetadata({
@@ -161,7 +171,6 @@ class CacheService {
       // Enforce cache size limits
       await this.enforceCacheSizeLimit();
 
-      await tx.done;
       console.log(`Successfully synced ${source} data:`, data.length, 'items');
     } catch (error) {
       console.error(`Failed to sync ${source} data:`, error);
@@ -169,15 +178,44 @@ class CacheService {
     }
   }
 
-  async getData(source: 'btcmap' | 'blink' | 'bitcoinjungle'): Promise<any[]> {
+  // Add or update merchants without touching the rest of the cache, used
+  // for viewport queries that only return part of each source
+  async putMerchants(data: any[]) {
+    if (!this.db) throw new Error('Cache not initialized');
+
+    try {
+      const tx = this.db.transaction(MERCHANTS_STORE, 'readwrite');
+      const store = tx.objectStore(MERCHANTS_STORE);
+      for (const item of data) {
+        await store.put({
+          ...item,
+          lastAccess: Date.now()
+        });
+      }
+      await tx.done;
+
+      await this.updateMetadata({
+        totalSize: (this.metadata?.totalSize || 0) + JSON.stringify(data).length
+      });
+      await this.enforceCacheSizeLimit();
+    } catch (error) {
+      console.error('Failed to cache merchants:', error);
+      throw error;
+    }
+  }
+
+  // Cached merchants of one source, or of every source when omitted
+  async getData(source?: string): Promise<any[]> {
     if (!this.db) throw new Error('Cache not initialized');
 
     try {
-      const data = await this.db.getAll(source);
-      
+      const data = source
+        ? await this.db.getAllFromIndex(MERCHANTS_STORE, 'source', source)
+        : await this.db.getAll(MERCHANTS_STORE);
+
       // Update last access time for retrieved items
-      const tx = this.db.transaction(source, 'readwrite');
-      const store = tx.objectStore(source);
+      const tx = this.db.transaction(MERCHANTS_STORE, 'readwrite');
+      const store = tx.objectStore(MERCHANTS_STORE);
       for (const item of data) {
         await store.put({
           ...item,
@@ -188,7 +226,7 @@ class CacheService {
 
       return data;
     } catch (error) {
-      console.error(`Failed to get ${source} data from cache:`, error);
+      console.error(`Failed to get ${source || 'merchants'} data from cache:`, error);
       throw error;
     }
   }
@@ -197,10 +235,7 @@ class CacheService {
     if (!this.db) throw new Error('Cache not initialized');
 
     try {
-      const stores = ['btcmap', 'blink', 'bitcoinjungle'];
-      for (const store of stores) {
-        await this.db.clear(store);
-      }
+      await this.db.clear(MERCHANTS_STORE);
       await this.updateMetadata({
         lastSync: 0,
         totalSize: 0
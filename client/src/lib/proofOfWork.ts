@@ -0,0 +1,46 @@
+// Proof of work the server asks for before accepting a merchant suggestion:
+// a nonce so sha256(challenge + nonce) starts with `difficulty` zero bits.
+// Takes a second or so at the default difficulty, which costs people nothing
+// but makes mass submissions expensive.
+export interface PowChallenge {
+  challenge: string;
+  difficulty: number;
+  expiresAt: string;
+}
+
+export interface PowSolution {
+  challenge: string;
+  nonce: string;
+}
+
+const encoder = new TextEncoder();
+
+function leadingZeroBits(hash: Uint8Array): number {
+  let bits = 0;
+  for (const byte of Array.from(hash)) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+export async function solveChallenge({ challenge, difficulty }: PowChallenge): Promise<PowSolution> {
+  for (let nonce = 0; ; nonce++) {
+    const hash = await crypto.subtle.digest("SHA-256", encoder.encode(challenge + nonce));
+    if (leadingZeroBits(new Uint8Array(hash)) >= difficulty) {
+      return { challenge, nonce: String(nonce) };
+    }
+  }
+}
+
+// Fetch a fresh challenge and solve it, challenges can only be used once
+export async function getProofOfWork(): Promise<PowSolution> {
+  const res = await fetch("/api/submissions/challenge", { credentials: "include" });
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+  return solveChallenge(await res.json());
+}
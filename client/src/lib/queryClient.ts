@@ -1,5 +1,50 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { cacheService } from "./cacheService";
+import type { Merchant } from "@shared/schema";
+
+// Combine cached merchants of every source, or null when the cache is empty
+async function getCachedMerchants(): Promise<{ merchants: Merchant[] } | null> {
+  const merchants: Merchant[] = await cacheService.getData();
+  return merchants.length > 0 ? { merchants } : null;
+}
+
+// Per-source endpoints look like /api/<source>/merchants
+function getEndpointSource(url: string): string | null {
+  const match = url.match(/^\/api\/([^/]+)\/merchants$/);
+  return match ? match[1] : null;
+}
+
+async function fetchViewportMerchants(url: string) {
+  if (!cacheService.initialized) {
+    await cacheService.init();
+  }
+
+  try {
+    const res = await fetch(url, {
+      credentials: "include",
+    });
+    await throwIfResNotOk(res);
+    const data = await res.json();
+
+    await cacheService.putMerchants(data.merchants || []);
+    return data;
+  } catch (error) {
+    console.error('Error fetching viewport merchants:', error);
+
+    const bbox = new URL(url, window.location.origin).searchParams.get('bbox')?.split(',').map(Number);
+    const cached: Merchant[] = await cacheService.getData();
+    const merchants = bbox?.length === 4
+      ? cached.filter(({ latitude, longitude }) =>
+          longitude >= bbox[0] && latitude >= bbox[1] && longitude <= bbox[2] && latitude <= bbox[3])
+      : cached;
+
+    if (merchants.length > 0) {
+      console.log('Falling back to cached viewport merchants:', merchants.length, 'items');
+      return { merchants, total: merchants.length, truncated: false };
+    }
+    throw error;
+  }
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -31,36 +76,48 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const url = queryKey[0] as string;
-    const endpointType = url.split('/').pop();
+    const endpointSource = getEndpointSource(url);
+
+    // Viewport queries (/api/merchants?bbox=...) always hit the network and
+    // fill the offline cache, which answers them when the request fails
+    if (url.startsWith('/api/merchants?')) {
+      return fetchViewportMerchants(url);
+    }
+
+    // Only merchant data goes through the offline cache
+    if (url !== '/api/merchants' && !endpointSource) {
+      const res = await fetch(url, {
+        credentials: "include",
+      });
+
+      if (unauthorizedBehavior === "returnNull" && res.status === 401) {
+        return null;
+      }
+
+      await throwIfResNotOk(res);
+      return await res.json();
+    }
 
     try {
       // Initialize cache service if not already initialized
-      if (!cacheService.db) {
+      if (!cacheService.initialized) {
         await cacheService.init();
       }
 
       // Special handling for combined merchants endpoint
       if (url === '/api/merchants') {
         if (!await cacheService.isCacheStale()) {
-          const btcMapData = await cacheService.getData('btcmap');
-          const blinkData = await cacheService.getData('blink');
-          const bitcoinJungleData = await cacheService.getData('bitcoinjungle');
-
-          if (btcMapData?.length > 0 || blinkData?.length > 0 || bitcoinJungleData?.length > 0) {
+          const cached = await getCachedMerchants();
+          if (cached) {
             console.log('Using cached merchants data');
-            return {
-              btcmap: btcMapData || [],
-              blink: blinkData || [],
-              bitcoinjungle: bitcoinJungleData || []
-            };
+            return cached;
           }
         }
-      } else if (!await cacheService.isCacheStale()) {
+      } else if (endpointSource && !await cacheService.isCacheStale()) {
         // Handle individual endpoint caches
-        const source = endpointType as 'btcmap' | 'blink' | 'bitcoinjungle';
-        const cachedData = await cacheService.getData(source);
+        const cachedData = await cacheService.getData(endpointSource);
         if (cachedData && cachedData.length > 0) {
-          console.log(`Using cached ${source} data:`, cachedData.length, 'items');
+          console.log(`Using cached ${endpointSource} data:`, cachedData.length, 'items');
           return cachedData;
         }
       }
@@ -79,40 +136,31 @@ export const getQueryFn: <T>(options: {
 
       // Handle caching based on endpoint
       if (url === '/api/merchants') {
-        // Cache each data set separately
-        await Promise.all([
-          cacheService.syncData('btcmap', data.btcmap),
-          cacheService.syncData('blink', data.blink),
-          cacheService.syncData('bitcoinjungle', data.bitcoinjungle)
-        ]);
-      } else {
-        const source = endpointType as 'btcmap' | 'blink' | 'bitcoinjungle';
-        await cacheService.syncData(source, data);
+        // Cache each source separately
+        const merchants: Merchant[] = data.merchants || [];
+        const sources = Array.from(new Set(merchants.map(merchant => merchant.source)));
+        await Promise.all(sources.map(source =>
+          cacheService.syncData(source, merchants.filter(merchant => merchant.source === source))
+        ));
+      } else if (endpointSource) {
+        await cacheService.syncData(endpointSource, data);
       }
 
       return data;
     } catch (error) {
-      console.error(`Error fetching ${endpointType} data:`, error);
+      console.error(`Error fetching ${endpointSource || 'merchants'} data:`, error);
 
       // If offline or API error, try to return cached data as fallback
       if (url === '/api/merchants') {
-        const btcMapData = await cacheService.getData('btcmap');
-        const blinkData = await cacheService.getData('blink');
-        const bitcoinJungleData = await cacheService.getData('bitcoinjungle');
-
-        if (btcMapData?.length > 0 || blinkData?.length > 0 || bitcoinJungleData?.length > 0) {
+        const cached = await getCachedMerchants();
+        if (cached) {
           console.log('Falling back to cached merchants data');
-          return {
-            btcmap: btcMapData || [],
-            blink: blinkData || [],
-            bitcoinjungle: bitcoinJungleData || []
-          };
+          return cached;
         }
-      } else {
-        const source = endpointType as 'btcmap' | 'blink' | 'bitcoinjungle';
-        const cachedData = await cacheService.getData(source);
+      } else if (endpointSource) {
+        const cachedData = await cacheService.getData(endpointSource);
         if (cachedData && cachedData.length > 0) {
-          console.log(`Falling back to cached ${source} data:`, cachedData.length, 'items');
+          console.log(`Falling back to cached ${endpointSource} data:`, cachedData.length, 'items');
           return cachedData;
         }
       }
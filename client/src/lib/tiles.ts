@@ -0,0 +1,59 @@
+import type L from "leaflet";
+
+// Merchants are requested per slippy-map tile so panning only downloads
+// tiles that haven't been seen yet and React Query can cache each one
+export const MAX_TILE_ZOOM = 12;
+const TILE_ZOOM_OFFSET = 2; // Tiles are 4x4 viewport-sized screens wide
+
+export interface MerchantTile {
+  key: string;
+  bbox: [number, number, number, number]; // west, south, east, north
+  zoom: number;                           // Zoom the server thins results for
+}
+
+function lngToTileX(lng: number, zoom: number): number {
+  return Math.floor((lng + 180) / 360 * Math.pow(2, zoom));
+}
+
+function latToTileY(lat: number, zoom: number): number {
+  const clamped = Math.max(-85.0511, Math.min(85.0511, lat));
+  const rad = clamped * Math.PI / 180;
+  return Math.floor((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2 * Math.pow(2, zoom));
+}
+
+function tileXToLng(x: number, zoom: number): number {
+  return x / Math.pow(2, zoom) * 360 - 180;
+}
+
+function tileYToLat(y: number, zoom: number): number {
+  const n = Math.PI - 2 * Math.PI * y / Math.pow(2, zoom);
+  return 180 / Math.PI * Math.atan(Math.sinh(n));
+}
+
+export function getTileZoom(mapZoom: number): number {
+  return Math.max(0, Math.min(MAX_TILE_ZOOM, Math.floor(mapZoom) - TILE_ZOOM_OFFSET));
+}
+
+// Tiles covering the given bounds, wrapping around the antimeridian
+export function getViewportTiles(bounds: L.LatLngBounds, mapZoom: number): MerchantTile[] {
+  const zoom = getTileZoom(mapZoom);
+  const count = Math.pow(2, zoom);
+
+  const minX = lngToTileX(bounds.getWest(), zoom);
+  const maxX = Math.min(lngToTileX(bounds.getEast(), zoom), minX + count - 1);
+  const minY = Math.max(0, latToTileY(bounds.getNorth(), zoom));
+  const maxY = Math.min(count - 1, latToTileY(bounds.getSouth(), zoom));
+
+  const tiles: MerchantTile[] = [];
+  for (let rawX = minX; rawX <= maxX; rawX++) {
+    const x = ((rawX % count) + count) % count;
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({
+        key: `${zoom}/${x}/${y}`,
+        bbox: [tileXToLng(x, zoom), tileYToLat(y + 1, zoom), tileXToLng(x + 1, zoom), tileYToLat(y, zoom)],
+        zoom: zoom + TILE_ZOOM_OFFSET,
+      });
+    }
+  }
+  return tiles;
+}
@@ -1,13 +1,18 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import MapView from "@/components/map-view";
+import { RecentChanges } from "@/components/recent-changes";
+import { NearbyMerchants } from "@/components/nearby-merchants";
+import { AddressSearch } from "@/components/address-search";
+import { getProofOfWork } from "@/lib/proofOfWork";
 import { useState, useEffect } from "react";
+import type L from "leaflet";
 import { Plus, Loader2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
-import { insertMerchantSchema } from "@shared/schema";
+import { insertMerchantSchema, type DuplicateCandidate, type GeocodeResult } from "@shared/schema";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useTheme } from "@/hooks/use-theme";
 import { Textarea } from "@/components/ui/textarea";
@@ -18,18 +23,33 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useLocation } from "wouter";
 
 
 export default function Home() {
   const [selectedLocation, setSelectedLocation] = useState<{lat: number, lng: number} | null>(null);
+  // Where the map was last asked to fly to, set when an address is picked
+  const [focusLocation, setFocusLocation] = useState<{lat: number, lng: number} | null>(null);
   const [showLocationInput, setShowLocationInput] = useState(false);
   const [showMerchantForm, setShowMerchantForm] = useState(false);
+  const [mapBounds, setMapBounds] = useState<L.LatLngBounds | null>(null);
   const { theme } = useTheme();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
 
   const locationForm = useForm({
     defaultValues: {
@@ -73,16 +93,71 @@ export default function Home() {
     }
   }, [selectedLocation, merchantForm]);
 
+  // Pin position once it stops moving, e.g. while coordinates are typed
+  const [addressLocation, setAddressLocation] = useState(selectedLocation);
+  useEffect(() => {
+    const timeout = setTimeout(() => setAddressLocation(selectedLocation), 500);
+    return () => clearTimeout(timeout);
+  }, [selectedLocation]);
+
+  // Address of the pin, filled in until the submitter edits the field
+  const { data: pinAddress } = useQuery<GeocodeResult>({
+    queryKey: [`/api/geocode/reverse?lat=${addressLocation?.lat}&lng=${addressLocation?.lng}`],
+    enabled: showMerchantForm && Boolean(addressLocation),
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (pinAddress && !merchantForm.getFieldState("address").isDirty) {
+      merchantForm.setValue("address", pinAddress.label);
+    }
+  }, [pinAddress, merchantForm]);
+
+  // Known merchants the server found near a suggestion, waiting for the
+  // submitter to confirm theirs is a different place
+  const [possibleDuplicates, setPossibleDuplicates] = useState<{ data: any; duplicates: DuplicateCandidate[] } | null>(null);
+
+  // Hidden from people, only bots fill it in. Kept out of the form values so
+  // validation doesn't touch it.
+  const [homepage, setHomepage] = useState("");
+
   const mutation = useMutation({
-    mutationFn: async (data: any) => {
-      const res = await apiRequest("POST", "/api/merchants", data);
+    mutationFn: async ({ data, confirmDuplicates = false }: { data: any; confirmDuplicates?: boolean }) => {
+      const pow = await getProofOfWork();
+      const res = await fetch("/api/merchants", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...data, confirmDuplicates, pow, homepage }),
+        credentials: "include",
+      });
+
+      if (res.status === 409) {
+        const body = await res.json();
+        return { data, duplicates: body.duplicates as DuplicateCandidate[] };
+      }
+      if (!res.ok) {
+        const text = (await res.text()) || res.statusText;
+        throw new Error(`${res.status}: ${text}`);
+      }
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { id: string; issueUrl?: string } | { data: any; duplicates: DuplicateCandidate[] }) => {
+      if ("duplicates" in result) {
+        setPossibleDuplicates(result);
+        return;
+      }
+
       toast({
         title: "Success",
-        description: "Merchant added successfully!",
+        description: "Thanks for your suggestion! Follow its progress on its status page.",
+        action: (
+          <ToastAction altText="View status" onClick={() => navigate(`/submissions/${result.id}`)}>
+            View status
+          </ToastAction>
+        ),
       });
+      setPossibleDuplicates(null);
       merchantForm.reset();
       setShowMerchantForm(false);
       setSelectedLocation(null);
@@ -106,6 +181,14 @@ export default function Home() {
     setShowLocationInput(true);
   };
 
+  // Moving the pin to a searched address updates the coordinate fields too,
+  // and the map flies there so the pin can be adjusted
+  const handleAddressSelect = (result: GeocodeResult) => {
+    const location = { lat: result.latitude, lng: result.longitude };
+    setSelectedLocation(location);
+    setFocusLocation(location);
+  };
+
   const handleConfirmLocation = () => {
     const lat = parseFloat(locationForm.getValues("latitude"));
     const lng = parseFloat(locationForm.getValues("longitude"));
@@ -141,12 +224,23 @@ export default function Home() {
       return;
     }
 
-    mutation.mutate(submitData);
+    mutation.mutate({ data: submitData });
   }
 
+  // The submitter recognised their merchant among the known ones
+  const handleAlreadyListed = () => {
+    setPossibleDuplicates(null);
+    toast({
+      title: "Already on the map",
+      description: "Thanks for checking! This merchant doesn't need to be suggested again.",
+    });
+    handleCancel();
+  };
+
   // Watch latitude and longitude values to sync with map
   const latitude = merchantForm.watch("latitude");
   const longitude = merchantForm.watch("longitude");
+  const merchantName = merchantForm.watch("name");
 
   // Update map when lat/lng inputs change
   const handleCoordinateChange = (lat: number, lng: number) => {
@@ -160,6 +254,8 @@ export default function Home() {
         <MapView
           selectedLocation={selectedLocation}
           onLocationSelect={setSelectedLocation}
+          onBoundsChange={setMapBounds}
+          focusLocation={focusLocation}
         />
       </div>
 
@@ -190,6 +286,11 @@ export default function Home() {
           )}
         </div>
 
+        {/* Recent Changes Panel */}
+        <div className="absolute bottom-8 left-4 pointer-events-auto">
+          <RecentChanges bounds={mapBounds} />
+        </div>
+
         {/* Forms Layer */}
         {showLocationInput && (
           <div className="absolute top-4 right-4 pointer-events-auto">
@@ -197,6 +298,7 @@ export default function Home() {
               <CardContent className="p-4">
                 <Form {...locationForm}>
                   <form className="space-y-4">
+                    <AddressSearch near={selectedLocation} onSelect={handleAddressSelect} />
                     <FormField
                       control={locationForm.control}
                       name="latitude"
@@ -252,6 +354,16 @@ export default function Home() {
                 <Form {...merchantForm}>
                   <form onSubmit={merchantForm.handleSubmit(onSubmit)} className="flex flex-col h-full">
                     <div className="flex-1 overflow-y-auto space-y-4 pr-2 pb-6">
+                      <input
+                        type="text"
+                        name="homepage"
+                        value={homepage}
+                        onChange={(e) => setHomepage(e.target.value)}
+                        tabIndex={-1}
+                        autoComplete="off"
+                        aria-hidden="true"
+                        className="absolute -left-[10000px] h-px w-px overflow-hidden"
+                      />
                       <FormField
                         control={merchantForm.control}
                         name="name"
@@ -266,6 +378,13 @@ export default function Home() {
                         )}
                       />
 
+                      <NearbyMerchants
+                        latitude={Number(latitude)}
+                        longitude={Number(longitude)}
+                        name={merchantName}
+                        onSamePlace={handleAlreadyListed}
+                      />
+
                       <div className="grid grid-cols-2 gap-4">
                         <FormField
                           control={merchantForm.control}
@@ -523,6 +642,35 @@ export default function Home() {
           </div>
         )}
       </div>
+
+      <AlertDialog open={possibleDuplicates !== null} onOpenChange={open => !open && setPossibleDuplicates(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Is this merchant already on the map?</AlertDialogTitle>
+            <AlertDialogDescription>
+              We found known merchants that look like your suggestion. If one of them is the same place, there's no need to suggest it again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="space-y-2">
+            {possibleDuplicates?.duplicates.map(duplicate => (
+              <li key={duplicate.id} className="rounded-md border p-3">
+                <p className="text-sm font-medium">{duplicate.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {[duplicate.address, `${Math.round(duplicate.distance)} m away`, duplicate.source].filter(Boolean).join(" · ")}
+                </p>
+              </li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={handleAlreadyListed}>It's already there</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => possibleDuplicates && mutation.mutate({ data: possibleDuplicates.data, confirmDuplicates: true })}
+            >
+              It's a different place, submit
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,154 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { AlertCircle, ArrowLeft, CheckCircle2, Circle, Clock, ExternalLink, Loader2, Search, ShieldAlert, XCircle } from "lucide-react";
+import type { PublicSubmission, SubmissionStatus } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+const STATUS_DETAILS: Record<SubmissionStatus, { label: string; description: string; icon: typeof Circle; className: string }> = {
+  held: {
+    label: "Waiting for moderation",
+    description: "A moderator will check your suggestion before it's passed on to the volunteers.",
+    icon: ShieldAlert,
+    className: "text-muted-foreground",
+  },
+  pending: {
+    label: "Received",
+    description: "We saved your suggestion and are passing it on to the volunteers.",
+    icon: Clock,
+    className: "text-muted-foreground",
+  },
+  open: {
+    label: "Waiting for review",
+    description: "Your suggestion is in the queue of the volunteers who add merchants to the map.",
+    icon: Circle,
+    className: "text-blue-600",
+  },
+  in_review: {
+    label: "In review",
+    description: "A volunteer is looking into your suggestion.",
+    icon: Search,
+    className: "text-amber-600",
+  },
+  added: {
+    label: "Added to the map",
+    description: "Your merchant is on the map. Thank you!",
+    icon: CheckCircle2,
+    className: "text-green-600",
+  },
+  rejected: {
+    label: "Not added",
+    description: "The volunteers decided not to add this merchant, for example because it's already on the map.",
+    icon: XCircle,
+    className: "text-red-600",
+  },
+};
+
+// Public status page of a merchant suggestion, linked after submitting
+export default function SubmissionPage({ params }: { params: { id: string } }) {
+  const { data: submission, isLoading, error } = useQuery<PublicSubmission>({
+    queryKey: [`/api/submissions/${encodeURIComponent(params.id)}`],
+    staleTime: 60 * 1000,
+  });
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-lg">
+        <CardContent className="pt-6 space-y-6">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="-ml-2">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to the map
+            </Button>
+          </Link>
+
+          {isLoading && (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading your suggestion...
+            </div>
+          )}
+
+          {error && (
+            <div className="flex gap-2">
+              <AlertCircle className="h-5 w-5 text-red-500 flex-none" />
+              <p className="text-sm">
+                {error.message.startsWith("404")
+                  ? "We couldn't find this suggestion. Please check the link."
+                  : "The status of this suggestion could not be loaded. Please try again later."}
+              </p>
+            </div>
+          )}
+
+          {submission && (
+            <>
+              <div>
+                <h1 className="text-2xl font-semibold">{submission.merchant.name}</h1>
+                <p className="text-sm text-muted-foreground">
+                  {[submission.merchant.address, submission.country].filter(Boolean).join(", ")}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Badge variant="secondary" className={STATUS_DETAILS[submission.status].className}>
+                  {STATUS_DETAILS[submission.status].label}
+                </Badge>
+                <p className="text-sm">{STATUS_DETAILS[submission.status].description}</p>
+                {submission.issueUrl && (
+                  <a
+                    href={submission.issueUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                  >
+                    Follow the discussion on GitHub
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                )}
+              </div>
+
+              {submission.comments && submission.comments.length > 0 && (
+                <div>
+                  <h2 className="text-sm font-medium mb-3">Comments from volunteers</h2>
+                  <ul className="space-y-3">
+                    {submission.comments.map(comment => (
+                      <li key={comment.id} className="rounded-md border p-3">
+                        <p className="text-xs text-muted-foreground mb-1">
+                          {comment.author} · {format(new Date(comment.createdAt), "PPp")}
+                        </p>
+                        <p className="text-sm whitespace-pre-wrap">{comment.body}</p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div>
+                <h2 className="text-sm font-medium mb-3">History</h2>
+                <ol className="space-y-3">
+                  {submission.history.slice().reverse().map((event, index) => {
+                    const { label, icon: Icon, className } = STATUS_DETAILS[event.status];
+                    return (
+                      <li key={`${event.status}-${event.at}-${index}`} className="flex gap-2">
+                        <Icon className={`h-4 w-4 mt-0.5 flex-none ${className}`} />
+                        <div>
+                          <p className="text-sm">{label}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {format(new Date(event.at), "PPp")}
+                            {event.note && ` · ${event.note}`}
+                          </p>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import type { InsertMerchant } from "@shared/schema";
+import { ProofOfWork, RateLimiter, SPAM_THRESHOLD, scoreSpam } from "./abuse";
+
+// Low enough that brute-forcing a nonce in the tests is quick
+const DIFFICULTY = 8;
+
+// The first nonce whose hash starts with a zero byte, enough for DIFFICULTY,
+// or with below, the first that falls short of it
+function solve(challenge: string, below = false): string {
+  for (let nonce = 0; ; nonce++) {
+    const hash = createHash("sha256").update(challenge + nonce).digest();
+    if ((hash[0] === 0) !== below) return String(nonce);
+  }
+}
+
+describe("ProofOfWork", () => {
+  let previousDifficulty: string | undefined;
+
+  beforeEach(() => {
+    previousDifficulty = process.env.POW_DIFFICULTY;
+    process.env.POW_DIFFICULTY = String(DIFFICULTY);
+  });
+
+  afterEach(() => {
+    if (previousDifficulty === undefined) delete process.env.POW_DIFFICULTY;
+    else process.env.POW_DIFFICULTY = previousDifficulty;
+    mock.restoreAll();
+  });
+
+  it("accepts a solved challenge once", () => {
+    const pow = new ProofOfWork();
+    const { challenge, difficulty } = pow.createChallenge();
+    assert.equal(difficulty, DIFFICULTY);
+
+    const nonce = solve(challenge);
+    assert.equal(pow.verify(challenge, nonce), null);
+    assert.equal(pow.verify(challenge, nonce), "Proof of work challenge already used");
+  });
+
+  it("rejects a nonce short of the difficulty", () => {
+    const pow = new ProofOfWork();
+    const { challenge } = pow.createChallenge();
+    assert.equal(pow.verify(challenge, solve(challenge, true)), "Invalid proof of work");
+    // A failed attempt doesn't use up the challenge
+    assert.equal(pow.verify(challenge, solve(challenge)), null);
+  });
+
+  it("rejects a challenge with its difficulty lowered", () => {
+    const pow = new ProofOfWork();
+    const [expiresAt, , random, signature] = pow.createChallenge().challenge.split(".");
+    const tampered = [expiresAt, "0", random, signature].join(".");
+    assert.equal(pow.verify(tampered, "0"), "Invalid proof of work challenge");
+  });
+
+  it("rejects challenges from another secret or malformed ones", () => {
+    const { challenge } = new ProofOfWork().createChallenge();
+    const pow = new ProofOfWork();
+    assert.equal(pow.verify(challenge, solve(challenge)), "Invalid proof of work challenge");
+    assert.equal(pow.verify("not-a-challenge", "0"), "Invalid proof of work challenge");
+    assert.equal(pow.verify(undefined, "0"), "Missing proof of work");
+  });
+
+  it("rejects an expired challenge", () => {
+    const pow = new ProofOfWork();
+    const { challenge, expiresAt } = pow.createChallenge();
+    const nonce = solve(challenge);
+
+    mock.method(Date, "now", () => new Date(expiresAt).getTime() + 1);
+    assert.equal(pow.verify(challenge, nonce), "Proof of work challenge expired");
+  });
+
+  it("accepts anything when the difficulty is 0", () => {
+    process.env.POW_DIFFICULTY = "0";
+    assert.equal(new ProofOfWork().verify(undefined, undefined), null);
+  });
+});
+
+describe("RateLimiter", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("allows hits up to the limit in a window", () => {
+    let now = 1_000_000;
+    mock.method(Date, "now", () => now);
+    const limiter = new RateLimiter(2, 60_000);
+
+    assert.equal(limiter.hit("a").allowed, true);
+    assert.equal(limiter.hit("a").allowed, true);
+    now += 15_000;
+    assert.deepEqual(limiter.hit("a"), { allowed: false, retryAfter: 45 });
+    // Keys are counted apart
+    assert.equal(limiter.hit("b").allowed, true);
+
+    now += 45_000;
+    assert.equal(limiter.hit("a").allowed, true);
+  });
+
+  it("checks without counting a hit", () => {
+    const limiter = new RateLimiter(1, 60_000);
+    assert.equal(limiter.check("a").allowed, true);
+    assert.equal(limiter.check("a").allowed, true);
+    limiter.hit("a");
+    assert.equal(limiter.check("a").allowed, false);
+  });
+});
+
+describe("scoreSpam", () => {
+  const merchant: InsertMerchant = {
+    name: "Panaderia La Esquina",
+    address: "Calle 5, Tamarindo",
+    latitude: 10.2993,
+    longitude: -85.8371,
+    paymentMethods: ["lightning"],
+    dataSource: "I visited as a customer",
+  };
+
+  it("scores an ordinary suggestion as clean", () => {
+    assert.deepEqual(scoreSpam(merchant), { score: 0, reasons: [] });
+  });
+
+  it("holds suggestions with spam keywords", () => {
+    const { score, reasons } = scoreSpam({ ...merchant, notes: "Best online casino bonus" });
+    assert.ok(score >= SPAM_THRESHOLD);
+    assert.deepEqual(reasons, ["Spam keywords"]);
+  });
+
+  it("adds up weaker signals", () => {
+    const { score, reasons } = scoreSpam({
+      ...merchant,
+      name: "WWW.CHEAP-DEALS.EXAMPLE",
+      notes: "https://a.example https://b.example",
+      contact: "deals@mailinator.com",
+    });
+    assert.ok(score >= SPAM_THRESHOLD);
+    assert.deepEqual(reasons, ["Many links", "Link in the name", "Name in capitals", "Disposable email address"]);
+  });
+
+  it("flags Null Island", () => {
+    assert.deepEqual(scoreSpam({ ...merchant, latitude: 0, longitude: 0 }).reasons, ["Null Island coordinates"]);
+  });
+});
@@ -0,0 +1,182 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { InsertMerchant } from "@shared/schema";
+
+// Form field hidden from people, bots filling every input give themselves away
+export const HONEYPOT_FIELD = 'homepage';
+
+// Suggestions scoring this much or more are held for moderation
+export const SPAM_THRESHOLD = 5;
+
+// How long a proof-of-work challenge can be solved and used
+const CHALLENGE_TTL = 10 * 60 * 1000;
+
+// Fixed window counter per key, e.g. per IP address
+export class RateLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  // Whether one more hit would be allowed, without counting it
+  check(key: string): { allowed: boolean; retryAfter: number } {
+    const now = Date.now();
+    this.prune(now);
+
+    const window = this.windows.get(key);
+    return {
+      allowed: !window || window.count < this.limit,
+      retryAfter: window ? Math.ceil((window.resetAt - now) / 1000) : 0,
+    };
+  }
+
+  // Count a hit, returning how long to wait when the limit is exceeded
+  hit(key: string): { allowed: boolean; retryAfter: number } {
+    const now = Date.now();
+    this.prune(now);
+
+    let window = this.windows.get(key);
+    if (!window) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+
+    window.count++;
+    return {
+      allowed: window.count <= this.limit,
+      retryAfter: Math.ceil((window.resetAt - now) / 1000),
+    };
+  }
+
+  private prune(now: number) {
+    for (const [key, window] of Array.from(this.windows)) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
+
+export const ipRateLimiter = new RateLimiter(10, 60 * 60 * 1000);
+export const contactRateLimiter = new RateLimiter(5, 24 * 60 * 60 * 1000);
+// Address lookups of the suggestion form, which are debounced while typing
+export const geocodeRateLimiter = new RateLimiter(30, 60 * 1000);
+
+// Leading zero bits a solution hash needs, POW_DIFFICULTY=0 turns the check off
+export function getPowDifficulty(): number {
+  const difficulty = Number(process.env.POW_DIFFICULTY ?? 16);
+  return Number.isInteger(difficulty) && difficulty >= 0 ? difficulty : 16;
+}
+
+function leadingZeroBits(hash: Buffer): number {
+  let bits = 0;
+  for (const byte of Array.from(hash)) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+// Stateless challenges signed with POW_SECRET (or a per-process secret, so
+// open challenges die with a restart). The client has to find a nonce so
+// sha256(challenge + nonce) starts with `difficulty` zero bits. Each
+// challenge is accepted once.
+export class ProofOfWork {
+  private secret: string | null = null;
+  private used = new Map<string, number>();
+
+  // Read lazily so values loaded by dotenv in routes.ts are picked up
+  private sign(payload: string): string {
+    if (!this.secret) this.secret = process.env.POW_SECRET || randomBytes(32).toString('hex');
+    return createHmac('sha256', this.secret).update(payload).digest('hex');
+  }
+
+  createChallenge(): { challenge: string; difficulty: number; expiresAt: string } {
+    const difficulty = getPowDifficulty();
+    const expiresAt = Date.now() + CHALLENGE_TTL;
+    const payload = `${expiresAt}.${difficulty}.${randomBytes(16).toString('hex')}`;
+    return {
+      challenge: `${payload}.${this.sign(payload)}`,
+      difficulty,
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+  }
+
+  // Error message for an invalid solution, null when it's accepted
+  verify(challenge: unknown, nonce: unknown): string | null {
+    if (getPowDifficulty() === 0) return null;
+    if (typeof challenge !== 'string' || typeof nonce !== 'string') {
+      return 'Missing proof of work';
+    }
+
+    const parts = challenge.split('.');
+    if (parts.length !== 4) return 'Invalid proof of work challenge';
+    const [expiresAt, difficulty, random, signature] = parts;
+    const expected = Buffer.from(this.sign(`${expiresAt}.${difficulty}.${random}`));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      return 'Invalid proof of work challenge';
+    }
+
+    const now = Date.now();
+    if (Number(expiresAt) < now) return 'Proof of work challenge expired';
+    for (const [key, expiry] of Array.from(this.used)) {
+      if (expiry < now) this.used.delete(key);
+    }
+    if (this.used.has(challenge)) return 'Proof of work challenge already used';
+
+    const hash = createHash('sha256').update(challenge + nonce).digest();
+    if (leadingZeroBits(hash) < Number(difficulty)) return 'Invalid proof of work';
+
+    this.used.set(challenge, Number(expiresAt));
+    return null;
+  }
+}
+
+export const proofOfWork = new ProofOfWork();
+
+const SPAM_WORDS = /\b(casino|viagra|cialis|porn|xxx|loan|forex|airdrop|giveaway|double your|escort|betting|seo services)\b/i;
+const LINK = /https?:\/\/|www\./i;
+const LINKS = /https?:\/\/|www\./gi;
+const DISPOSABLE_DOMAINS = ['mailinator.com', 'guerrillamail.com', '10minutemail.com', 'tempmail.com', 'yopmail.com', 'trashmail.com'];
+
+// Heuristic score of how spammy a suggestion looks, with the reasons that
+// added to it. Real merchants rarely trip more than one of these.
+export function scoreSpam(merchant: InsertMerchant): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  let score = 0;
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  const text = [merchant.name, merchant.address, merchant.notes, merchant.type].filter(Boolean).join(' ');
+  if (SPAM_WORDS.test(text)) add(5, 'Spam keywords');
+
+  const links = (merchant.notes?.match(LINKS)?.length ?? 0) + (merchant.name.match(LINKS)?.length ?? 0);
+  if (links > 2) add(3, 'Many links');
+  if (LINK.test(merchant.name)) add(2, 'Link in the name');
+
+  if (merchant.name.length > 80) add(2, 'Very long name');
+  if (merchant.name.length >= 6 && merchant.name === merchant.name.toUpperCase() && /[A-Z]/.test(merchant.name)) {
+    add(1, 'Name in capitals');
+  }
+  if (/(.)\1{5,}/.test(text)) add(2, 'Repeated characters');
+
+  const domain = merchant.contact?.split('@')[1]?.toLowerCase();
+  if (domain && DISPOSABLE_DOMAINS.includes(domain)) add(2, 'Disposable email address');
+
+  if (merchant.latitude === 0 && merchant.longitude === 0) add(3, 'Null Island coordinates');
+
+  return { score, reasons };
+}
+
+// Bearer token of the moderation endpoints, disabled without it
+export function getModerationToken(): string | null {
+  return process.env.MODERATION_TOKEN || null;
+}
+
+export function verifyModerationToken(token: string, authorization: string | undefined): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const received = Buffer.from(authorization ?? '');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -0,0 +1,128 @@
+import * as turf from '@turf/turf';
+import type { Merchant, MerchantChange } from "@shared/schema";
+import type { MerchantSource } from "./sources";
+import type { IStorage } from "./storage";
+import { bboxContains, type BBox } from "./spatialIndex";
+
+// Position changes below this are coordinate noise, not a move
+export const MOVE_THRESHOLD_METERS = 25;
+
+// Window of /api/changes when no ?since= is given
+export const DEFAULT_CHANGES_WINDOW = 7 * 24 * 60 * 60 * 1000;
+
+export const MAX_CHANGES_LIMIT = 5000;
+
+// Compare two syncs of one source. A merchant can be both moved and renamed,
+// which records two changes.
+export function diffMerchants(previous: Merchant[], next: Merchant[], detectedAt: string): MerchantChange[] {
+  const before = new Map(previous.map(merchant => [merchant.id, merchant]));
+  const changes: MerchantChange[] = [];
+
+  for (const merchant of next) {
+    const base = {
+      source: merchant.source,
+      merchantId: merchant.id,
+      name: merchant.name,
+      latitude: merchant.latitude,
+      longitude: merchant.longitude,
+      detectedAt,
+    };
+
+    const old = before.get(merchant.id);
+    before.delete(merchant.id);
+    if (!old) {
+      changes.push({ ...base, type: 'added' });
+      continue;
+    }
+
+    const moved = turf.distance(
+      [old.longitude, old.latitude],
+      [merchant.longitude, merchant.latitude],
+      { units: 'meters' }
+    );
+    if (moved >= MOVE_THRESHOLD_METERS) {
+      changes.push({ ...base, type: 'moved', previousLatitude: old.latitude, previousLongitude: old.longitude });
+    }
+    if (old.name.trim() !== merchant.name.trim()) {
+      changes.push({ ...base, type: 'renamed', previousName: old.name });
+    }
+  }
+
+  // Whatever is left wasn't in the new data
+  for (const merchant of Array.from(before.values())) {
+    changes.push({
+      source: merchant.source,
+      merchantId: merchant.id,
+      type: 'removed',
+      name: merchant.name,
+      latitude: merchant.latitude,
+      longitude: merchant.longitude,
+      detectedAt,
+    });
+  }
+
+  return changes;
+}
+
+export interface ChangeQuery {
+  since?: Date;
+  bbox?: BBox;
+  sources?: string[];
+  limit?: number;
+}
+
+export interface ChangeQueryResult {
+  since: string;
+  changes: MerchantChange[];
+  truncated: boolean;
+}
+
+// Records what changed between consecutive syncs of every source. The first
+// sync of a source after a start without stored data only sets the baseline.
+export class ChangeLog {
+  private storage: IStorage | null = null;
+
+  persistTo(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  record(source: MerchantSource, previous: Merchant[], next: Merchant[], syncedAt = new Date()) {
+    if (!this.storage) return;
+
+    const changes = diffMerchants(previous, next, syncedAt.toISOString());
+    if (!changes.length) return;
+
+    const counts: Record<string, number> = {};
+    for (const change of changes) counts[change.type] = (counts[change.type] || 0) + 1;
+    console.log(`${source.info.name} changes: ${Object.entries(counts).map(([type, count]) => `${count} ${type}`).join(', ')}`);
+
+    this.storage.saveChanges(changes).catch(error => {
+      console.error(`Failed to persist ${source.info.name} changes:`, error);
+    });
+  }
+
+  // Newest first. A move matches the bbox at either end.
+  async query(query: ChangeQuery): Promise<ChangeQueryResult> {
+    const since = query.since ?? new Date(Date.now() - DEFAULT_CHANGES_WINDOW);
+    const limit = query.limit ?? MAX_CHANGES_LIMIT;
+    const sources = query.sources ? new Set(query.sources) : null;
+    const bbox = query.bbox;
+
+    const stored = this.storage ? await this.storage.getChanges(since) : [];
+    const changes = stored
+      .filter(change => !sources || sources.has(change.source))
+      .filter(change => !bbox
+        || bboxContains(bbox, change.latitude, change.longitude)
+        || (change.previousLatitude !== undefined && change.previousLongitude !== undefined
+          && bboxContains(bbox, change.previousLatitude, change.previousLongitude)))
+      .reverse();
+
+    return {
+      since: since.toISOString(),
+      changes: changes.slice(0, limit),
+      truncated: changes.length > limit,
+    };
+  }
+}
+
+export const changeLog = new ChangeLog();
@@ -0,0 +1,150 @@
+import { CLUSTER_MAX_ZOOM, TILE_POINT_LIMIT, type Merchant, type MerchantCluster, type SourceHealth } from "@shared/schema";
+import { getSourceHealth, loadMerchantsBySource, queryMerchants } from "./merchants";
+import { bboxContains, type BBox } from "./spatialIndex";
+
+// Cluster radius in screen pixels at the requested zoom
+const CLUSTER_CELL_SIZE = 60;
+
+export interface ClusterQuery {
+  bbox?: BBox;
+  zoom: number;
+  sources?: string[];
+}
+
+export interface ClusterQueryResult {
+  zoom: number;
+  clusters: MerchantCluster[];
+  points: Merchant[];      // Merchants that are alone in their cell
+  sources: Record<string, SourceHealth>;
+}
+
+interface ClusterCell {
+  x: number;
+  y: number;
+  count: number;
+  latitudeSum: number;
+  longitudeSum: number;
+  merchant: Merchant;      // First merchant, returned as a point when alone
+}
+
+// Web Mercator pixel coordinates at a zoom level, so cells are the same
+// size on screen at every latitude
+function project(latitude: number, longitude: number, zoom: number): [number, number] {
+  const scale = 256 * Math.pow(2, zoom);
+  const sin = Math.sin(latitude * Math.PI / 180);
+  // Clamp to the Mercator limit, the poles project to infinity
+  const clamped = Math.min(Math.max(sin, -0.9999), 0.9999);
+  const x = (longitude + 180) / 360 * scale;
+  const y = (0.5 - Math.log((1 + clamped) / (1 - clamped)) / (4 * Math.PI)) * scale;
+  return [x, y];
+}
+
+// Cells per zoom level for each merchants array, rebuilt when the upstream
+// cache hands out a new array after a refresh
+const clusterCells = new WeakMap<Merchant[], Map<number, Map<string, ClusterCell>>>();
+
+function getClusterCells(merchants: Merchant[], zoom: number): Map<string, ClusterCell> {
+  let byZoom = clusterCells.get(merchants);
+  if (!byZoom) {
+    byZoom = new Map();
+    clusterCells.set(merchants, byZoom);
+  }
+
+  let cells = byZoom.get(zoom);
+  if (!cells) {
+    cells = new Map();
+    for (const merchant of merchants) {
+      const [px, py] = project(merchant.latitude, merchant.longitude, zoom);
+      const x = Math.floor(px / CLUSTER_CELL_SIZE);
+      const y = Math.floor(py / CLUSTER_CELL_SIZE);
+      const key = `${x}/${y}`;
+
+      const cell = cells.get(key);
+      if (cell) {
+        cell.count++;
+        cell.latitudeSum += merchant.latitude;
+        cell.longitudeSum += merchant.longitude;
+      } else {
+        cells.set(key, {
+          x,
+          y,
+          count: 1,
+          latitudeSum: merchant.latitude,
+          longitudeSum: merchant.longitude,
+          merchant,
+        });
+      }
+    }
+    byZoom.set(zoom, cells);
+  }
+  return cells;
+}
+
+// Clusters of the requested sources within a viewport. Cells are computed
+// per source and merged here, so any combination of sources shares the
+// precomputed grids.
+export async function queryClusters(query: ClusterQuery): Promise<ClusterQueryResult> {
+  const zoom = Math.floor(query.zoom);
+
+  if (zoom > CLUSTER_MAX_ZOOM) {
+    const { merchants, sources } = await queryMerchants({
+      bbox: query.bbox,
+      zoom,
+      sources: query.sources,
+      limit: TILE_POINT_LIMIT,
+    });
+    return { zoom, clusters: [], points: merchants, sources };
+  }
+
+  const merged = new Map<string, {
+    cell: ClusterCell;
+    count: number;
+    latitudeSum: number;
+    longitudeSum: number;
+    sources: Record<string, number>;
+  }>();
+
+  for (const { source, merchants } of await loadMerchantsBySource(query.sources)) {
+    for (const [key, cell] of Array.from(getClusterCells(merchants, zoom))) {
+      const entry = merged.get(key);
+      if (entry) {
+        entry.count += cell.count;
+        entry.latitudeSum += cell.latitudeSum;
+        entry.longitudeSum += cell.longitudeSum;
+        entry.sources[source.info.id] = cell.count;
+      } else {
+        merged.set(key, {
+          cell,
+          count: cell.count,
+          latitudeSum: cell.latitudeSum,
+          longitudeSum: cell.longitudeSum,
+          sources: { [source.info.id]: cell.count },
+        });
+      }
+    }
+  }
+
+  const clusters: MerchantCluster[] = [];
+  const points: Merchant[] = [];
+  for (const entry of Array.from(merged.values())) {
+    const latitude = entry.latitudeSum / entry.count;
+    const longitude = entry.longitudeSum / entry.count;
+    // Clusters belong to the viewport holding their centroid, so adjacent
+    // tiles never return the same cluster
+    if (query.bbox && !bboxContains(query.bbox, latitude, longitude)) continue;
+
+    if (entry.count === 1) {
+      points.push(entry.cell.merchant);
+    } else {
+      clusters.push({
+        id: `${zoom}/${entry.cell.x}/${entry.cell.y}`,
+        latitude,
+        longitude,
+        count: entry.count,
+        sources: entry.sources,
+      });
+    }
+  }
+
+  return { zoom, clusters, points, sources: getSourceHealth(query.sources) };
+}
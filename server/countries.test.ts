@@ -0,0 +1,41 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findCountry, loadCountryBoundaries, resolveCountry } from "./countries";
+
+describe("country lookup", () => {
+  before(async () => {
+    await loadCountryBoundaries();
+  });
+
+  it("names countries the way Nominatim does", async () => {
+    const places: [number, number, string, string][] = [
+      [9.9326, -84.0796, "Costa Rica", "CR"],                       // San José
+      [13.4929, -89.3832, "El Salvador", "SV"],                     // El Zonte
+      [40.7831, -73.9712, "United States", "US"],                   // Manhattan
+      [18.4861, -69.9312, "Dominican Republic", "DO"],              // Santo Domingo
+      [-4.3217, 15.3125, "Democratic Republic of the Congo", "CD"], // Kinshasa
+      [43.8563, 18.4131, "Bosnia and Herzegovina", "BA"],           // Sarajevo
+      [4.8594, 31.5713, "South Sudan", "SS"],                       // Juba
+      [13.2528, -61.1971, "Saint Vincent and the Grenadines", "VC"], // Saint Vincent
+    ];
+    for (const [latitude, longitude, name, code] of places) {
+      assert.deepEqual(await findCountry(latitude, longitude), { name, code }, `${latitude},${longitude}`);
+    }
+  });
+
+  it("codes areas Natural Earth leaves without one", async () => {
+    assert.deepEqual(await findCountry(9.56, 44.065), { name: "Somalia", code: "SO" });          // Hargeisa
+    assert.deepEqual(await findCountry(35.3364, 33.3182), { name: "Cyprus", code: "CY" });       // Kyrenia
+    assert.deepEqual(await findCountry(-10.49, 105.65), { name: "Christmas Island", code: "CX" });
+    assert.deepEqual(await findCountry(-12.188, 96.91), { name: "Cocos (Keeling) Islands", code: "CC" });
+  });
+
+  it("finds nothing at sea without the Nominatim fallback", async () => {
+    process.env.COUNTRY_NOMINATIM_FALLBACK = "false";
+    try {
+      assert.equal(await resolveCountry(0, -30), null);
+    } finally {
+      delete process.env.COUNTRY_NOMINATIM_FALLBACK;
+    }
+  });
+});
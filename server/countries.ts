@@ -0,0 +1,118 @@
+import * as turf from '@turf/turf';
+import { readFile } from "fs/promises";
+import path from "path";
+import type { Feature, FeatureCollection, MultiPolygon, Polygon } from "geojson";
+import { nominatim } from "./nominatim";
+import type { BBox } from "./spatialIndex";
+import countryNames from "./data/country-names.json";
+
+// Natural Earth 1:50m admin 0 boundaries (public domain, via the world-atlas
+// package) with ISO codes added and coordinates rounded to 0.001°. Any
+// GeoJSON with the same NAME / ISO_A2 properties can replace it.
+const DEFAULT_BOUNDARIES_FILE = 'server/data/countries.geojson';
+
+// English names Nominatim gives countries, by ISO code. Submissions are
+// labelled with them whichever way the country was resolved.
+const COUNTRY_NAMES: Record<string, string> = countryNames;
+
+export interface Country {
+  name: string;
+  code?: string; // ISO 3166-1 alpha-2, upper case
+}
+
+interface CountryBoundary {
+  country: Country;
+  bbox: BBox;
+  feature: Feature<Polygon | MultiPolygon>;
+}
+
+function getBoundariesFile(): string {
+  return path.resolve(process.env.COUNTRY_BOUNDARIES_FILE || DEFAULT_BOUNDARIES_FILE);
+}
+
+// Nominatim is asked when no boundary contains the point, unless turned off
+// with COUNTRY_NOMINATIM_FALLBACK=false
+function isNominatimFallbackEnabled(): boolean {
+  return process.env.COUNTRY_NOMINATIM_FALLBACK !== 'false';
+}
+
+// Natural Earth marks some codes as -99 and keeps the usable one in ISO_A2_EH
+function toCountry(properties: Record<string, any> | null): Country | null {
+  const code = [properties?.ISO_A2, properties?.ISO_A2_EH, properties?.iso_a2]
+    .find(value => typeof value === 'string' && /^[A-Za-z]{2}$/.test(value))?.toUpperCase();
+  const name = (code && COUNTRY_NAMES[code]) ?? properties?.NAME_LONG ?? properties?.ADMIN ?? properties?.NAME ?? properties?.name;
+  if (typeof name !== 'string' || !name) return null;
+  return code ? { name, code } : { name };
+}
+
+async function readBoundaries(file: string): Promise<CountryBoundary[]> {
+  const collection: FeatureCollection = JSON.parse(await readFile(file, 'utf8'));
+  const boundaries: CountryBoundary[] = [];
+  for (const feature of collection.features) {
+    const country = toCountry(feature.properties);
+    if (!country) continue;
+    if (feature.geometry?.type !== 'Polygon' && feature.geometry?.type !== 'MultiPolygon') continue;
+    boundaries.push({
+      country,
+      bbox: turf.bbox(feature) as BBox,
+      feature: feature as Feature<Polygon | MultiPolygon>,
+    });
+  }
+  return boundaries;
+}
+
+let boundaries: Promise<CountryBoundary[]> | null = null;
+
+// Country boundaries are read once, at startup. A missing or broken file
+// stops the server instead of quietly sending every lookup to Nominatim.
+export function loadCountryBoundaries(): Promise<CountryBoundary[]> {
+  if (!boundaries) {
+    const file = getBoundariesFile();
+    boundaries = readBoundaries(file).then(
+      loaded => {
+        if (!loaded.length) throw new Error(`No country boundaries found in ${file}`);
+        console.log(`Loaded ${loaded.length} country boundaries from ${file}`);
+        return loaded;
+      },
+      error => {
+        throw new Error(`Country boundaries could not be loaded from ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    );
+  }
+  return boundaries;
+}
+
+// Country containing the point according to the bundled boundaries
+export async function findCountry(latitude: number, longitude: number): Promise<Country | null> {
+  const point = turf.point([longitude, latitude]);
+  for (const { country, bbox: [west, south, east, north], feature } of await loadCountryBoundaries()) {
+    if (longitude < west || longitude > east || latitude < south || latitude > north) continue;
+    if (turf.booleanPointInPolygon(point, feature)) return country;
+  }
+  return null;
+}
+
+// Country from the Nominatim OpenStreetMap API, null when it can't be resolved
+async function lookupCountry(latitude: number, longitude: number): Promise<Country | null> {
+  try {
+    const data = await nominatim.request(`/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=3&accept-language=en`);
+    if (data.address && data.address.country) {
+      const code = data.address.country_code;
+      return typeof code === 'string' && code.length === 2
+        ? { name: COUNTRY_NAMES[code.toUpperCase()] ?? data.address.country, code: code.toUpperCase() }
+        : { name: data.address.country };
+    }
+    console.warn('No country found in Nominatim response:', data);
+  } catch (error) {
+    console.error('Error getting country from coordinates:', error);
+  }
+  return null;
+}
+
+// Country of a point from the bundled boundaries, falling back to Nominatim
+// for points outside all of them (e.g. on a coast the simplified shapes cut off)
+export async function resolveCountry(latitude: number, longitude: number): Promise<Country | null> {
+  const country = await findCountry(latitude, longitude);
+  if (country || !isNominatimFallbackEnabled()) return country;
+  return lookupCountry(latitude, longitude);
+}
@@ -0,0 +1,237 @@
+import {
+  merchants,
+  merchantChanges,
+  merchantMatches,
+  snapshotMerchants,
+  sourceSnapshots,
+  submissions,
+  type Merchant,
+  type MerchantChange,
+  type MerchantChangeRow,
+  type MerchantMatch,
+  type MerchantRow,
+  type PaymentMethod,
+  type SourceSnapshot,
+  type Submission,
+  type SubmissionRow,
+  type SubmissionStatus,
+} from "@shared/schema";
+import { db } from "./db";
+import { and, asc, desc, eq, getTableColumns, gte, inArray, lt } from "drizzle-orm";
+import { getSnapshotRetentionStart, startOfSnapshotDay, type IStorage, type SourceSync, type StoredSourceData } from "./storage";
+
+// Rows per INSERT, keeps statements well below Postgres' parameter limit
+const INSERT_BATCH_SIZE = 1000;
+
+// Optional merchant fields are stored as NULL
+function toRow(merchant: Merchant): MerchantRow {
+  return {
+    id: merchant.id,
+    source: merchant.source,
+    sourceId: merchant.sourceId,
+    name: merchant.name,
+    latitude: merchant.latitude,
+    longitude: merchant.longitude,
+    category: merchant.category ?? null,
+    address: merchant.address ?? null,
+    country: merchant.country ?? null,
+    paymentMethods: merchant.paymentMethods,
+    website: merchant.website ?? null,
+    phone: merchant.phone ?? null,
+    openingHours: merchant.openingHours ?? null,
+    payUrl: merchant.payUrl ?? null,
+    username: merchant.username ?? null,
+    description: merchant.description ?? null,
+    lastSurveyed: merchant.lastSurveyed ?? null,
+  };
+}
+
+function fromRow(row: MerchantRow): Merchant {
+  const merchant: Merchant = {
+    id: row.id,
+    source: row.source,
+    sourceId: row.sourceId,
+    name: row.name,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    paymentMethods: row.paymentMethods as PaymentMethod[],
+  };
+  for (const field of ['category', 'address', 'country', 'website', 'phone', 'openingHours', 'payUrl', 'username', 'description', 'lastSurveyed'] as const) {
+    if (row[field] !== null) merchant[field] = row[field];
+  }
+  return merchant;
+}
+
+function fromChangeRow(row: MerchantChangeRow): MerchantChange {
+  const change: MerchantChange = {
+    source: row.source,
+    merchantId: row.merchantId,
+    type: row.type as MerchantChange['type'],
+    name: row.name,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    detectedAt: row.detectedAt.toISOString(),
+  };
+  if (row.previousName !== null) change.previousName = row.previousName;
+  if (row.previousLatitude !== null) change.previousLatitude = row.previousLatitude;
+  if (row.previousLongitude !== null) change.previousLongitude = row.previousLongitude;
+  return change;
+}
+
+function toSubmissionRow(submission: Submission): SubmissionRow {
+  return {
+    id: submission.id,
+    merchant: submission.merchant,
+    country: submission.country ?? null,
+    countryCode: submission.countryCode ?? null,
+    status: submission.status,
+    history: submission.history,
+    issueNumber: submission.issueNumber ?? null,
+    issueUrl: submission.issueUrl ?? null,
+    labels: submission.labels ?? null,
+    comments: submission.comments ?? null,
+    possibleDuplicates: submission.possibleDuplicates ?? null,
+    spamScore: submission.spamScore ?? null,
+    spamReasons: submission.spamReasons ?? null,
+    attempts: submission.attempts,
+    lastError: submission.lastError ?? null,
+    nextAttemptAt: submission.nextAttemptAt ? new Date(submission.nextAttemptAt) : null,
+    createdAt: new Date(submission.createdAt),
+    updatedAt: new Date(submission.updatedAt),
+  };
+}
+
+function fromSubmissionRow(row: SubmissionRow): Submission {
+  const submission: Submission = {
+    id: row.id,
+    merchant: row.merchant,
+    status: row.status as SubmissionStatus,
+    history: row.history,
+    attempts: row.attempts,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+  if (row.country !== null) submission.country = row.country;
+  if (row.countryCode !== null) submission.countryCode = row.countryCode;
+  if (row.issueNumber !== null) submission.issueNumber = row.issueNumber;
+  if (row.issueUrl !== null) submission.issueUrl = row.issueUrl;
+  if (row.labels !== null) submission.labels = row.labels;
+  if (row.comments !== null) submission.comments = row.comments;
+  if (row.possibleDuplicates !== null) submission.possibleDuplicates = row.possibleDuplicates;
+  if (row.spamScore !== null) submission.spamScore = row.spamScore;
+  if (row.spamReasons !== null) submission.spamReasons = row.spamReasons;
+  if (row.lastError !== null) submission.lastError = row.lastError;
+  if (row.nextAttemptAt !== null) submission.nextAttemptAt = row.nextAttemptAt.toISOString();
+  return submission;
+}
+
+// Postgres storage, only imported when configured since ./db requires
+// DATABASE_URL at import time
+export class DatabaseStorage implements IStorage {
+  async saveSourceSnapshot(sync: SourceSync, data: Merchant[]): Promise<void> {
+    await db.transaction(async tx => {
+      await tx.delete(merchants).where(eq(merchants.source, sync.source));
+      for (let i = 0; i < data.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(merchants).values(data.slice(i, i + INSERT_BATCH_SIZE).map(toRow));
+      }
+
+      // Earlier snapshots of the day give up their merchants to this one
+      const earlierToday = tx
+        .select({ id: sourceSnapshots.id })
+        .from(sourceSnapshots)
+        .where(and(eq(sourceSnapshots.source, sync.source), gte(sourceSnapshots.syncedAt, startOfSnapshotDay(sync.syncedAt))));
+      await tx.delete(snapshotMerchants).where(inArray(snapshotMerchants.snapshotId, earlierToday));
+      await tx.delete(sourceSnapshots).where(and(
+        eq(sourceSnapshots.source, sync.source),
+        lt(sourceSnapshots.syncedAt, getSnapshotRetentionStart(sync.syncedAt))
+      ));
+
+      const [snapshot] = await tx.insert(sourceSnapshots).values({
+        source: sync.source,
+        syncedAt: sync.syncedAt,
+        merchantCount: data.length,
+        etag: sync.etag,
+        lastModified: sync.lastModified,
+      }).returning({ id: sourceSnapshots.id });
+      await tx.insert(snapshotMerchants).values({ snapshotId: snapshot.id, merchants: data });
+    });
+  }
+
+  async getLatestSourceData(source: string): Promise<StoredSourceData | undefined> {
+    const [snapshot] = await db
+      .select()
+      .from(sourceSnapshots)
+      .where(eq(sourceSnapshots.source, source))
+      .orderBy(desc(sourceSnapshots.syncedAt))
+      .limit(1);
+    if (!snapshot) return undefined;
+
+    const rows = await db.select().from(merchants).where(eq(merchants.source, source));
+    return { snapshot, merchants: rows.map(fromRow) };
+  }
+
+  async listSourceSnapshots(source: string): Promise<SourceSnapshot[]> {
+    return await db
+      .select(getTableColumns(sourceSnapshots))
+      .from(sourceSnapshots)
+      .innerJoin(snapshotMerchants, eq(snapshotMerchants.snapshotId, sourceSnapshots.id))
+      .where(eq(sourceSnapshots.source, source))
+      .orderBy(desc(sourceSnapshots.syncedAt));
+  }
+
+  async getSnapshotMerchants(snapshotId: number): Promise<Merchant[] | undefined> {
+    const [row] = await db.select().from(snapshotMerchants).where(eq(snapshotMerchants.snapshotId, snapshotId));
+    return row?.merchants;
+  }
+
+  async saveMatches(matches: MerchantMatch[]): Promise<void> {
+    await db.transaction(async tx => {
+      await tx.delete(merchantMatches);
+      for (let i = 0; i < matches.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(merchantMatches).values(matches.slice(i, i + INSERT_BATCH_SIZE));
+      }
+    });
+  }
+
+  async getMatches(): Promise<MerchantMatch[]> {
+    return await db.select().from(merchantMatches);
+  }
+
+  async saveChanges(changes: MerchantChange[]): Promise<void> {
+    for (let i = 0; i < changes.length; i += INSERT_BATCH_SIZE) {
+      await db.insert(merchantChanges).values(changes.slice(i, i + INSERT_BATCH_SIZE).map(change => ({
+        ...change,
+        detectedAt: new Date(change.detectedAt),
+      })));
+    }
+  }
+
+  async getChanges(since: Date): Promise<MerchantChange[]> {
+    const rows = await db
+      .select()
+      .from(merchantChanges)
+      .where(gte(merchantChanges.detectedAt, since))
+      .orderBy(asc(merchantChanges.detectedAt), asc(merchantChanges.id));
+    return rows.map(fromChangeRow);
+  }
+
+  async saveSubmission(submission: Submission): Promise<void> {
+    const row = toSubmissionRow(submission);
+    await db.insert(submissions).values(row).onConflictDoUpdate({ target: submissions.id, set: row });
+  }
+
+  async getSubmission(id: string): Promise<Submission | undefined> {
+    const [row] = await db.select().from(submissions).where(eq(submissions.id, id));
+    return row ? fromSubmissionRow(row) : undefined;
+  }
+
+  async getSubmissionByIssue(issueNumber: number): Promise<Submission | undefined> {
+    const [row] = await db.select().from(submissions).where(eq(submissions.issueNumber, issueNumber));
+    return row ? fromSubmissionRow(row) : undefined;
+  }
+
+  async getSubmissionsByStatus(statuses: SubmissionStatus[]): Promise<Submission[]> {
+    const rows = await db.select().from(submissions).where(inArray(submissions.status, statuses));
+    return rows.map(fromSubmissionRow);
+  }
+}
@@ -0,0 +1,171 @@
+import stringSimilarity from 'string-similarity';
+import * as turf from '@turf/turf';
+import type { DuplicateCandidate, Merchant, MerchantMatch } from '@shared/schema';
+
+// Configuration options for deduplication
+export const DEDUP_CONFIG = {
+  NAME_SIMILARITY_THRESHOLD: 0.55,  // Lowered to catch more edge cases with varying names
+  DISTANCE_THRESHOLD: 100,         // 100 meters
+  GRID_SIZE: 0.01,                // Roughly 1km grid cells
+  NAME_WEIGHT: 0.7,               // Increased weight for name similarity
+  LOCATION_WEIGHT: 0.3,           // Decreased weight for location proximity
+};
+
+// Helper to clean merchant names for comparison
+function cleanMerchantName(name: string): string {
+  return name.toLowerCase()
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '') // Remove diacritics (é -> e)
+    .replace(/[^\w\s]/g, ' ')  // Replace special characters with spaces
+    .replace(/\b(cafe|café|restaurant|bar|shop|store|ltd|inc|limited|llc|attorney|notary|law|firm|lawyer|abogado|legal|salvadoran|el salvador|and|&|the|specialty|roasters|bit|bitcofe|bitcoin|pro|loco|circolo)\b/g, '')  // Remove common business words
+    .trim()
+    .replace(/\s+/g, ' ') // Normalize spaces
+    .replace(/acli/i, 'acli'); // Normalize ACLI/Acli variations
+}
+
+// Calculate Haversine distance between two points in meters
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const point1 = turf.point([lon1, lat1]);
+  const point2 = turf.point([lon2, lat2]);
+  return turf.distance(point1, point2, { units: 'meters' });
+}
+
+// Calculate similarity score between two merchants
+export function calculateSimilarityScore(
+  merchant1: {
+    name: string;
+    latitude: number;
+    longitude: number;
+  },
+  merchant2: {
+    name: string;
+    latitude: number;
+    longitude: number;
+  }
+): number {
+  // Calculate name similarity with cleaned names
+  const name1 = cleanMerchantName(merchant1.name);
+  const name2 = cleanMerchantName(merchant2.name);
+  const nameSimilarity = stringSimilarity.compareTwoStrings(name1, name2);
+
+  // Calculate distance and convert to a similarity score (1 - normalized distance)
+  const distance = calculateDistance(
+    merchant1.latitude,
+    merchant1.longitude,
+    merchant2.latitude,
+    merchant2.longitude
+  );
+  const distanceSimilarity = Math.max(0, 1 - (distance / DEDUP_CONFIG.DISTANCE_THRESHOLD));
+
+  // Combine scores using weights
+  return (
+    DEDUP_CONFIG.NAME_WEIGHT * nameSimilarity +
+    DEDUP_CONFIG.LOCATION_WEIGHT * distanceSimilarity
+  );
+}
+
+// Create a spatial grid key for a location
+function getGridKey(latitude: number, longitude: number): string {
+  const latGrid = Math.floor(latitude / DEDUP_CONFIG.GRID_SIZE);
+  const lonGrid = Math.floor(longitude / DEDUP_CONFIG.GRID_SIZE);
+  return `${latGrid},${lonGrid}`;
+}
+
+// Get adjacent grid cells
+function getAdjacentGridKeys(gridKey: string): string[] {
+  const [latGrid, lonGrid] = gridKey.split(',').map(Number);
+  const adjacent: string[] = [];
+
+  for (let i = -1; i <= 1; i++) {
+    for (let j = -1; j <= 1; j++) {
+      adjacent.push(`${latGrid + i},${lonGrid + j}`);
+    }
+  }
+
+  return adjacent;
+}
+
+// Merchants of the other sources are compared against BTCMap, the reference dataset
+export const REFERENCE_SOURCE = 'btcmap';
+
+// Match merchants against the reference merchants near them, returning the
+// best scoring reference merchant for every candidate above the threshold
+export function findMatches(reference: Merchant[], candidates: Merchant[]): MerchantMatch[] {
+  // Create spatial index of BTCMap merchants
+  const btcMapGrid: Record<string, Merchant[]> = {};
+  reference.forEach(merchant => {
+    const gridKey = getGridKey(merchant.latitude, merchant.longitude);
+
+    if (!btcMapGrid[gridKey]) {
+      btcMapGrid[gridKey] = [];
+    }
+    btcMapGrid[gridKey].push(merchant);
+  });
+
+  const matches: MerchantMatch[] = [];
+  for (const merchant of candidates) {
+    const gridKey = getGridKey(merchant.latitude, merchant.longitude);
+    let best: MerchantMatch | null = null;
+
+    // Check all adjacent grid cells for potential duplicates
+    for (const key of getAdjacentGridKeys(gridKey)) {
+      for (const btcMerchant of btcMapGrid[key] || []) {
+        const score = calculateSimilarityScore(merchant, btcMerchant);
+        if (score >= DEDUP_CONFIG.NAME_SIMILARITY_THRESHOLD && (!best || score > best.score)) {
+          best = { id: merchant.id, btcmapId: btcMerchant.id, score };
+        }
+      }
+    }
+
+    if (best) matches.push(best);
+  }
+
+  return matches;
+}
+
+function toCandidate(
+  origin: { latitude: number; longitude: number },
+  merchant: Merchant,
+  score: number
+): DuplicateCandidate {
+  return {
+    id: merchant.id,
+    source: merchant.source,
+    sourceId: merchant.sourceId,
+    name: merchant.name,
+    ...(merchant.address ? { address: merchant.address } : {}),
+    latitude: merchant.latitude,
+    longitude: merchant.longitude,
+    score,
+    distance: calculateDistance(origin.latitude, origin.longitude, merchant.latitude, merchant.longitude),
+  };
+}
+
+// Merchants that may be the same place as a suggested one, best match first
+export function findSimilarMerchants(
+  suggested: { name: string; latitude: number; longitude: number },
+  merchants: Merchant[],
+  limit = 5
+): DuplicateCandidate[] {
+  return rankMerchants(suggested, merchants)
+    .filter(candidate => candidate.score >= DEDUP_CONFIG.NAME_SIMILARITY_THRESHOLD)
+    .slice(0, limit);
+}
+
+// Every merchant scored against a suggested one, best match first. Without
+// a name yet only the distance counts.
+export function rankMerchants(
+  suggested: { name?: string; latitude: number; longitude: number },
+  merchants: Merchant[]
+): DuplicateCandidate[] {
+  const name = suggested.name?.trim();
+  const candidates = merchants.map(merchant => {
+    const score = name ? calculateSimilarityScore({ ...suggested, name }, merchant) : 0;
+    return toCandidate(suggested, merchant, score);
+  });
+  return candidates.sort((a, b) => b.score - a.score || a.distance - b.distance);
+}
@@ -0,0 +1,207 @@
+import * as turf from '@turf/turf';
+import type { Merchant, MerchantMatch, SourceInfo } from "@shared/schema";
+import { findMerchants, type MerchantQuery } from "./merchants";
+import { matchIndex } from "./matchIndex";
+import type { Area } from "./merchantQuery";
+import { getEnabledSources } from "./sources";
+import { formatCsv } from "./sources/csv";
+import type { BBox } from "./spatialIndex";
+
+export type ExportFormat = "geojson" | "csv" | "kml" | "gpx";
+
+export interface ExportQuery extends MerchantQuery {
+  area?: Area;             // Drawn polygon, merchants outside it are dropped
+}
+
+interface ExportedMerchant {
+  merchant: Merchant;
+  source?: SourceInfo;
+  matches?: MerchantMatch[]; // Merchants of other sources hidden as this BTCMap merchant
+  duplicateOf?: MerchantMatch; // Only set when duplicates are included
+}
+
+// Filtered merchants with their source and deduplication info
+async function collectMerchants(query: ExportQuery): Promise<ExportedMerchant[]> {
+  // The polygon's bounding box uses the spatial index, the exact shape is checked after
+  const bbox = query.bbox ?? (query.area ? turf.bbox(query.area) as BBox : undefined);
+  let merchants = await findMerchants({ ...query, bbox });
+  if (query.area) {
+    const area = turf.feature(query.area);
+    merchants = merchants.filter(merchant =>
+      turf.booleanPointInPolygon([merchant.longitude, merchant.latitude], area)
+    );
+  }
+
+  const sources = new Map(getEnabledSources().map(source => [source.info.id, source.info]));
+  const matchesById = new Map(matchIndex.matches.map(match => [match.id, match]));
+  const matchesByBtcmapId = new Map<string, MerchantMatch[]>();
+  for (const match of matchIndex.matches) {
+    const matches = matchesByBtcmapId.get(match.btcmapId) || [];
+    matches.push(match);
+    matchesByBtcmapId.set(match.btcmapId, matches);
+  }
+
+  return merchants.map(merchant => ({
+    merchant,
+    source: sources.get(merchant.source),
+    matches: matchesByBtcmapId.get(merchant.id),
+    duplicateOf: matchesById.get(merchant.id),
+  }));
+}
+
+function sourceName({ merchant, source }: ExportedMerchant): string {
+  return source?.name || merchant.source;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Normalized merchant fields plus source attribution and deduplication info,
+// flat enough to show up as columns in QGIS
+function renderGeoJSON(exported: ExportedMerchant[]): string {
+  const features = exported.map(entry => {
+    const { latitude, longitude, ...fields } = entry.merchant;
+    return turf.point([longitude, latitude], {
+      ...fields,
+      sourceName: sourceName(entry),
+      attribution: entry.source?.attribution || sourceName(entry),
+      matches: entry.matches?.map(({ id, score }) => ({ id, score })),
+      duplicateOf: entry.duplicateOf?.btcmapId,
+      matchScore: entry.duplicateOf?.score,
+    }, { id: entry.merchant.id });
+  });
+  return JSON.stringify(turf.featureCollection(features));
+}
+
+const CSV_COLUMNS = [
+  'id', 'source', 'source_name', 'source_id', 'name', 'latitude', 'longitude',
+  'category', 'address', 'country', 'payment_methods', 'website', 'phone',
+  'opening_hours', 'pay_url', 'username', 'description', 'last_surveyed',
+  'matched_ids', 'duplicate_of', 'match_score',
+];
+
+function renderCsv(exported: ExportedMerchant[]): string {
+  const rows = exported.map(entry => {
+    const { merchant } = entry;
+    return [
+      merchant.id,
+      merchant.source,
+      sourceName(entry),
+      merchant.sourceId,
+      merchant.name,
+      merchant.latitude,
+      merchant.longitude,
+      merchant.category,
+      merchant.address,
+      merchant.country,
+      merchant.paymentMethods.join(';'),
+      merchant.website,
+      merchant.phone,
+      merchant.openingHours,
+      merchant.payUrl,
+      merchant.username,
+      merchant.description,
+      merchant.lastSurveyed,
+      entry.matches?.map(match => match.id).join(';'),
+      entry.duplicateOf?.btcmapId,
+      entry.duplicateOf?.score.toFixed(3),
+    ];
+  });
+  return formatCsv([CSV_COLUMNS, ...rows]);
+}
+
+// KML colours are aabbggrr
+function toKmlColor(hex: string): string {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return 'ff0000ff';
+  const [, r, g, b] = match;
+  return `ff${b}${g}${r}`.toLowerCase();
+}
+
+// Short text shown under the merchant name in map apps
+function describe({ merchant }: ExportedMerchant): string {
+  return [
+    merchant.category,
+    merchant.address,
+    merchant.openingHours && `Opening hours: ${merchant.openingHours}`,
+    merchant.paymentMethods.length ? `Accepts: ${merchant.paymentMethods.join(', ')}` : undefined,
+    merchant.website,
+    merchant.phone,
+    merchant.payUrl && `Pay: ${merchant.payUrl}`,
+  ].filter(Boolean).join('\n');
+}
+
+// One placemark style per source in the source's marker colour
+function renderKml(exported: ExportedMerchant[]): string {
+  const styles = getEnabledSources().map(({ info }) => `
+    <Style id="source-${escapeXml(info.id)}">
+      <IconStyle>
+        <color>${toKmlColor(info.color)}</color>
+        <Icon><href>http://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon>
+      </IconStyle>
+    </Style>`).join('');
+
+  const placemarks = exported.map(entry => {
+    const { merchant } = entry;
+    return `
+    <Placemark id="${escapeXml(merchant.id)}">
+      <name>${escapeXml(merchant.name)}</name>
+      <description>${escapeXml(describe(entry))}</description>
+      <styleUrl>#source-${escapeXml(merchant.source)}</styleUrl>
+      <ExtendedData>
+        <Data name="source"><value>${escapeXml(sourceName(entry))}</value></Data>
+        <Data name="paymentMethods"><value>${escapeXml(merchant.paymentMethods.join(';'))}</value></Data>
+      </ExtendedData>
+      <Point><coordinates>${merchant.longitude},${merchant.latitude}</coordinates></Point>
+    </Placemark>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Bitcoin merchants</name>${styles}${placemarks}
+  </Document>
+</kml>
+`;
+}
+
+function renderGpx(exported: ExportedMerchant[]): string {
+  const waypoints = exported.map(entry => {
+    const { merchant } = entry;
+    return `
+  <wpt lat="${merchant.latitude}" lon="${merchant.longitude}">
+    <name>${escapeXml(merchant.name)}</name>
+    <desc>${escapeXml(describe(entry))}</desc>
+    <src>${escapeXml(sourceName(entry))}</src>${merchant.website ? `
+    <link href="${escapeXml(merchant.website)}"/>` : ''}${merchant.category ? `
+    <type>${escapeXml(merchant.category)}</type>` : ''}
+  </wpt>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="BitcoinMapEditor" xmlns="http://www.topografix.com/GPX/1/1">${waypoints}
+</gpx>
+`;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; render: (exported: ExportedMerchant[]) => string }> = {
+  geojson: { contentType: 'application/geo+json', render: renderGeoJSON },
+  csv: { contentType: 'text/csv', render: renderCsv },
+  kml: { contentType: 'application/vnd.google-earth.kml+xml', render: renderKml },
+  gpx: { contentType: 'application/gpx+xml', render: renderGpx },
+};
+
+export function isExportFormat(format: string): format is ExportFormat {
+  return Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, format);
+}
+
+// Aggregated, deduplicated merchants rendered in the requested format
+export async function exportMerchants(format: ExportFormat, query: ExportQuery): Promise<string> {
+  return EXPORT_FORMATS[format].render(await collectMerchants(query));
+}
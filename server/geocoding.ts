@@ -0,0 +1,234 @@
+import type { GeocodeResult } from "@shared/schema";
+import { findMerchants } from "./merchants";
+import { findCountry } from "./countries";
+import { calculateDistance } from "./deduplication";
+import { bboxAround } from "./spatialIndex";
+import { getUpstreamUrl } from "./upstreams";
+import { UpstreamError, upstreamClient } from "./upstreamClient";
+import { nominatim } from "./nominatim";
+
+// Geocoding answers are reused for a day, addresses rarely move
+const CACHE_TTL = 24 * 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 1000;
+
+// How far a known merchant's address is trusted as the address of a point
+const LOCAL_REVERSE_RADIUS = 100;
+
+export type GeocoderKind = "nominatim" | "photon" | "local";
+
+export interface GeocodeSearchOptions {
+  limit: number;
+  near?: { lat: number; lng: number }; // Prefer results around this point
+}
+
+export interface Geocoder {
+  kind: GeocoderKind;
+  search(query: string, options: GeocodeSearchOptions): Promise<GeocodeResult[]>;
+  reverse(latitude: number, longitude: number): Promise<GeocodeResult | null>;
+}
+
+// Interactive lookups fail fast instead of retrying while someone waits
+async function fetchJson(name: string, url: string): Promise<any> {
+  return upstreamClient.call(name, async signal => {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'BitcoinMapEditor/1.0',
+        'Accept': 'application/json',
+        'Accept-Language': 'en'
+      },
+      signal,
+    });
+    if (!response.ok) {
+      throw new UpstreamError(`${name} API error: ${response.status} ${response.statusText}`, response.status);
+    }
+    return response.json();
+  }, { timeout: 5 * 1000, retries: 0 });
+}
+
+function joinAddress(parts: (string | undefined)[]): string {
+  return parts.filter(Boolean).join(', ');
+}
+
+// Requests share the queue that keeps to Nominatim's usage policy
+export class NominatimGeocoder implements Geocoder {
+  kind = "nominatim" as const;
+
+  private toResult(place: any): GeocodeResult | null {
+    if (!place || place.error || place.lat === undefined) return null;
+    const address = place.address ?? {};
+    const street = [address.road ?? address.pedestrian, address.house_number].filter(Boolean).join(' ');
+    const locality = address.city ?? address.town ?? address.village ?? address.hamlet;
+    const label = joinAddress([place.name && place.name !== address.road ? place.name : undefined, street, locality, address.country]);
+    return {
+      label: label || place.display_name,
+      latitude: Number(place.lat),
+      longitude: Number(place.lon),
+      ...(address.country ? { country: address.country } : {}),
+      ...(address.country_code ? { countryCode: String(address.country_code).toUpperCase() } : {}),
+    };
+  }
+
+  async search(query: string, { limit, near }: GeocodeSearchOptions): Promise<GeocodeResult[]> {
+    const params = new URLSearchParams({ format: 'jsonv2', q: query, limit: String(limit), addressdetails: '1', 'accept-language': 'en' });
+    // Nominatim only takes a box to prefer, about 100 km around the point
+    if (near) {
+      const [west, south, east, north] = bboxAround(near.lat, near.lng, 100 * 1000);
+      params.set('viewbox', [west, north, east, south].join(','));
+    }
+    const places: any[] = await nominatim.request(`/search?${params}`);
+    return places.map(place => this.toResult(place)).filter((result): result is GeocodeResult => result !== null);
+  }
+
+  async reverse(latitude: number, longitude: number): Promise<GeocodeResult | null> {
+    const params = new URLSearchParams({ format: 'jsonv2', lat: String(latitude), lon: String(longitude), zoom: '18', addressdetails: '1', 'accept-language': 'en' });
+    return this.toResult(await nominatim.request(`/reverse?${params}`));
+  }
+}
+
+// Photon (komoot), an OpenStreetMap geocoder built for search-as-you-type
+export class PhotonGeocoder implements Geocoder {
+  kind = "photon" as const;
+
+  private toResult(feature: any): GeocodeResult | null {
+    const [longitude, latitude] = feature?.geometry?.coordinates ?? [];
+    if (typeof latitude !== 'number' || typeof longitude !== 'number') return null;
+    const place = feature.properties ?? {};
+    const street = [place.street, place.housenumber].filter(Boolean).join(' ');
+    const locality = place.city ?? place.town ?? place.village ?? place.district;
+    return {
+      label: joinAddress([place.name !== place.street ? place.name : undefined, street, locality, place.country]),
+      latitude,
+      longitude,
+      ...(place.country ? { country: place.country } : {}),
+      ...(place.countrycode ? { countryCode: String(place.countrycode).toUpperCase() } : {}),
+    };
+  }
+
+  private toResults(collection: any): GeocodeResult[] {
+    return (collection?.features ?? []).map((feature: any) => this.toResult(feature))
+      .filter((result: GeocodeResult | null): result is GeocodeResult => result !== null && Boolean(result.label));
+  }
+
+  async search(query: string, { limit, near }: GeocodeSearchOptions): Promise<GeocodeResult[]> {
+    const params = new URLSearchParams({ q: query, limit: String(limit), lang: 'en' });
+    if (near) {
+      params.set('lat', String(near.lat));
+      params.set('lon', String(near.lng));
+    }
+    return this.toResults(await fetchJson('Photon', `${getUpstreamUrl('photon')}/api?${params}`));
+  }
+
+  async reverse(latitude: number, longitude: number): Promise<GeocodeResult | null> {
+    const params = new URLSearchParams({ lat: String(latitude), lon: String(longitude), lang: 'en' });
+    return this.toResults(await fetchJson('Photon', `${getUpstreamUrl('photon')}/reverse?${params}`))[0] ?? null;
+  }
+}
+
+// Offline stand-in that only knows the addresses of merchants already on the
+// map and the bundled country boundaries
+export class LocalGeocoder implements Geocoder {
+  kind = "local" as const;
+
+  async search(query: string, { limit, near }: GeocodeSearchOptions): Promise<GeocodeResult[]> {
+    const needle = query.toLowerCase();
+    const matches = (await findMerchants({}))
+      .filter(merchant => merchant.address?.toLowerCase().includes(needle) || merchant.name.toLowerCase().includes(needle));
+    if (near) {
+      const distance = (latitude: number, longitude: number) => calculateDistance(near.lat, near.lng, latitude, longitude);
+      matches.sort((a, b) => distance(a.latitude, a.longitude) - distance(b.latitude, b.longitude));
+    }
+
+    const results: GeocodeResult[] = [];
+    for (const merchant of matches.slice(0, limit)) {
+      const country = await findCountry(merchant.latitude, merchant.longitude);
+      results.push({
+        label: joinAddress([merchant.name, merchant.address ?? country?.name]),
+        latitude: merchant.latitude,
+        longitude: merchant.longitude,
+        ...(country ? { country: country.name } : {}),
+        ...(country?.code ? { countryCode: country.code } : {}),
+      });
+    }
+    return results;
+  }
+
+  async reverse(latitude: number, longitude: number): Promise<GeocodeResult | null> {
+    const country = await findCountry(latitude, longitude);
+    const closest = (await findMerchants({ bbox: bboxAround(latitude, longitude, LOCAL_REVERSE_RADIUS) }))
+      .filter(merchant => merchant.address)
+      .map(merchant => ({ merchant, distance: calculateDistance(latitude, longitude, merchant.latitude, merchant.longitude) }))
+      .filter(({ distance }) => distance <= LOCAL_REVERSE_RADIUS)
+      .sort((a, b) => a.distance - b.distance)[0];
+
+    // Source addresses often end in a country code already
+    const label = closest?.merchant.address ?? country?.name;
+    if (!label) return null;
+    return {
+      label,
+      latitude,
+      longitude,
+      ...(country ? { country: country.name } : {}),
+      ...(country?.code ? { countryCode: country.code } : {}),
+    };
+  }
+}
+
+// Answers of the wrapped geocoder kept for CACHE_TTL, dropping the oldest
+// entries once MAX_CACHE_ENTRIES are stored
+class CachedGeocoder implements Geocoder {
+  private cache = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(private geocoder: Geocoder) {}
+
+  get kind(): GeocoderKind {
+    return this.geocoder.kind;
+  }
+
+  private async cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > Date.now()) return entry.value as T;
+
+    const value = await load();
+    this.cache.delete(key);
+    this.cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL });
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return value;
+  }
+
+  search(query: string, options: GeocodeSearchOptions): Promise<GeocodeResult[]> {
+    // Rounded to about 10 km so nearby searches share entries
+    const near = options.near ? `${options.near.lat.toFixed(1)},${options.near.lng.toFixed(1)}` : '';
+    const key = `search:${query.toLowerCase()}:${options.limit}:${near}`;
+    return this.cached(key, () => this.geocoder.search(query, options));
+  }
+
+  reverse(latitude: number, longitude: number): Promise<GeocodeResult | null> {
+    // Rounded to about a meter
+    const key = `reverse:${latitude.toFixed(5)},${longitude.toFixed(5)}`;
+    return this.cached(key, () => this.geocoder.reverse(latitude, longitude));
+  }
+}
+
+function isGeocoderKind(value: string): value is GeocoderKind {
+  return value === 'nominatim' || value === 'photon' || value === 'local';
+}
+
+let geocoder: Geocoder | null = null;
+
+// Provider picked with GEOCODER=nominatim|photon|local, Nominatim by default.
+// Read lazily so values loaded by dotenv in routes.ts are picked up.
+export function getGeocoder(): Geocoder {
+  if (!geocoder) {
+    const kind = (process.env.GEOCODER || 'nominatim').toLowerCase();
+    if (!isGeocoderKind(kind)) {
+      console.warn(`Unknown GEOCODER "${process.env.GEOCODER}", using nominatim`);
+    }
+    const provider = kind === 'photon' ? new PhotonGeocoder()
+      : kind === 'local' ? new LocalGeocoder()
+      : new NominatimGeocoder();
+    geocoder = new CachedGeocoder(provider);
+  }
+  return geocoder;
+}
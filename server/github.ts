@@ -0,0 +1,112 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { getUpstreamUrl, isMockMode } from "./upstreams";
+import { UpstreamError, upstreamClient } from "./upstreamClient";
+
+// Issues are listed in pages of the maximum size GitHub allows
+const ISSUES_PER_PAGE = 100;
+
+// Repository merchant suggestions are filed in, as owner/name
+export interface GitHubConfig {
+  token: string;
+  repo: string;
+}
+
+export interface GitHubIssue {
+  number: number;
+  html_url: string;
+  state: "open" | "closed";
+  state_reason?: "completed" | "not_planned" | "duplicate" | "reopened" | null;
+  labels: { name: string }[];
+  updated_at: string;
+  closed_at?: string | null;
+}
+
+export interface GitHubComment {
+  id: number;
+  body: string;
+  html_url: string;
+  user: { login: string };
+  author_association: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewIssue {
+  title: string;
+  body: string;
+  labels: (string | { name: string; description?: string })[];
+}
+
+// Read lazily so values loaded by dotenv in routes.ts are picked up. The
+// mock server accepts any credentials.
+export function getGitHubConfig(): GitHubConfig | null {
+  const token = process.env.GITHUB_TOKEN || (isMockMode() ? 'mock-token' : '');
+  const repo = process.env.GITHUB_REPO?.replace('https://github.com/', '') || (isMockMode() ? 'mock/merchant-submissions' : '');
+  return token && repo ? { token, repo } : null;
+}
+
+// Shared secret of the repository webhook, webhooks are disabled without it
+export function getWebhookSecret(): string | null {
+  return process.env.GITHUB_WEBHOOK_SECRET || null;
+}
+
+// Check the X-Hub-Signature-256 header GitHub computes over the raw body
+export function verifyWebhookSignature(secret: string, body: Buffer, signature: string | undefined): boolean {
+  if (!signature?.startsWith('sha256=')) return false;
+
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(body).digest('hex')}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// Failed calls are retried by the caller's own schedule, not right away
+async function githubRequest<T>(config: GitHubConfig, method: string, path: string, body?: unknown): Promise<T> {
+  const url = `${getUpstreamUrl('github')}/repos/${config.repo}${path}`;
+
+  return upstreamClient.call('GitHub', async signal => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Authorization': `token ${config.token}`,
+        'Accept': 'application/vnd.github.v3+json',
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('GitHub API error:', {
+        status: response.status,
+        statusText: response.statusText,
+        error: errorText,
+        requestUrl: url,
+      });
+      throw new UpstreamError(`GitHub API error: ${response.status} - ${errorText}`, response.status);
+    }
+    return await response.json();
+  }, { timeout: 10 * 1000, retries: 0 });
+}
+
+export function createIssue(config: GitHubConfig, issue: NewIssue): Promise<GitHubIssue> {
+  return githubRequest(config, 'POST', '/issues', issue);
+}
+
+export function getIssue(config: GitHubConfig, number: number): Promise<GitHubIssue> {
+  return githubRequest(config, 'GET', `/issues/${number}`);
+}
+
+// Open and closed issues with a label that were updated after `since`
+export async function listIssues(config: GitHubConfig, label: string, since?: Date): Promise<GitHubIssue[]> {
+  const params = new URLSearchParams({ labels: label, state: 'all', per_page: String(ISSUES_PER_PAGE) });
+  if (since) params.set('since', since.toISOString());
+
+  const issues: GitHubIssue[] = [];
+  for (let page = 1; ; page++) {
+    params.set('page', String(page));
+    const batch = await githubRequest<GitHubIssue[]>(config, 'GET', `/issues?${params}`);
+    issues.push(...batch);
+    if (batch.length < ISSUES_PER_PAGE) return issues;
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Merchant } from "@shared/schema";
+import type { MerchantSource } from "./sources";
+import { MatchIndex } from "./matchIndex";
+import { MemStorage } from "./storage";
+
+const btcmap = { info: { id: "btcmap", deduplicate: false } } as MerchantSource;
+const blink = { info: { id: "blink", deduplicate: true } } as MerchantSource;
+
+function merchant(source: string, sourceId: string, name: string, latitude = 13.49): Merchant {
+  return { id: `${source}-${sourceId}`, source, sourceId, name, latitude, longitude: -89.38, paymentMethods: ["lightning"] };
+}
+
+describe("MatchIndex", () => {
+  it("removes duplicates of BTCMap merchants and stores the match table", async () => {
+    const storage = new MemStorage();
+    const index = new MatchIndex();
+    index.persistTo(storage);
+
+    const { merchantsBySource, matches, stats } = index.apply([
+      { source: btcmap, merchants: [merchant("btcmap", "1", "Cafe Luna")] },
+      { source: blink, merchants: [merchant("blink", "luna", "Café Luna"), merchant("blink", "pan", "Panaderia", 13.6)] },
+    ]);
+
+    assert.deepEqual(matches.map(({ id, btcmapId }) => ({ id, btcmapId })), [{ id: "blink-luna", btcmapId: "btcmap-1" }]);
+    assert.deepEqual(merchantsBySource.get("blink")?.map(m => m.id), ["blink-pan"]);
+    assert.deepEqual(stats.blink, { total: 2, unique: 1, duplicates: 1 });
+    assert.deepEqual(await storage.getMatches(), matches);
+  });
+
+  it("restores stored matches until a source refreshes", async () => {
+    const storage = new MemStorage();
+    await storage.saveMatches([
+      { id: "blink-luna", btcmapId: "btcmap-1", score: 0.9 },
+      { id: "blink-gone", btcmapId: "btcmap-1", score: 0.8 },
+    ]);
+    const index = new MatchIndex();
+    index.persistTo(storage);
+
+    // Names too far apart to match when scored, so only the stored table can pair them
+    const reference = [merchant("btcmap", "1", "Cafe Luna")];
+    const candidates = [merchant("blink", "luna", "Roastery")];
+    await index.restore([{ source: btcmap, merchants: reference }, { source: blink, merchants: candidates }]);
+
+    const restored = index.apply([{ source: btcmap, merchants: reference }, { source: blink, merchants: candidates }]);
+    assert.deepEqual(restored.matches, [{ id: "blink-luna", btcmapId: "btcmap-1", score: 0.9 }]);
+
+    const refreshed = index.apply([{ source: btcmap, merchants: reference }, { source: blink, merchants: [...candidates] }]);
+    assert.deepEqual(refreshed.matches, []);
+    assert.deepEqual(await storage.getMatches(), []);
+  });
+});
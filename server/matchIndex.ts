@@ -0,0 +1,141 @@
+import type { Merchant, MerchantMatch } from "@shared/schema";
+import type { MerchantSource } from "./sources";
+import { findMatches, REFERENCE_SOURCE } from "./deduplication";
+import type { IStorage } from "./storage";
+
+export interface LoadedSource {
+  source: MerchantSource;
+  merchants: Merchant[];
+}
+
+export interface DeduplicatedData {
+  // Merchants per source with duplicates of BTCMap merchants removed
+  merchantsBySource: Map<string, Merchant[]>;
+  matches: MerchantMatch[];
+  stats: Record<string, { total: number; unique: number; duplicates: number }>;
+}
+
+interface MatchTable {
+  candidates: Merchant[];
+  reference: Merchant[];
+  matches: MerchantMatch[];
+}
+
+// Deduplication results for the current cache contents. Match tables are
+// kept per source and only recomputed when that source or BTCMap hands out
+// a new array, so a refresh of one source doesn't rescore the others.
+export class MatchIndex {
+  private tables = new Map<string, MatchTable>();
+  private inputs: Merchant[][] = [];
+  private current: DeduplicatedData = { merchantsBySource: new Map(), matches: [], stats: {} };
+  private storage: IStorage | null = null;
+
+  // Persist the match table whenever it's recomputed
+  persistTo(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  // Start from the stored matches of the restored merchants instead of
+  // rescoring every source at startup. Tables are recomputed as usual once a
+  // source or BTCMap refreshes.
+  async restore(loaded: LoadedSource[]) {
+    const reference = loaded.find(({ source }) => source.info.id === REFERENCE_SOURCE)?.merchants;
+    if (!this.storage || !reference) return;
+
+    try {
+      const stored = await this.storage.getMatches();
+      if (!stored.length) return;
+
+      const referenceIds = new Set(reference.map(merchant => merchant.id));
+      for (const { source, merchants } of loaded) {
+        const id = source.info.id;
+        if (!source.info.deduplicate || id === REFERENCE_SOURCE || this.tables.has(id)) continue;
+
+        const candidateIds = new Set(merchants.map(merchant => merchant.id));
+        const matches = stored.filter(match => candidateIds.has(match.id) && referenceIds.has(match.btcmapId));
+        this.tables.set(id, { candidates: merchants, reference, matches });
+      }
+      console.log(`Restored ${stored.length} merchant matches`);
+    } catch (error) {
+      console.error('Failed to restore merchant matches from storage:', error);
+    }
+  }
+
+  private getMatchTable(sourceId: string, candidates: Merchant[], reference: Merchant[]): MerchantMatch[] {
+    const table = this.tables.get(sourceId);
+    if (table && table.candidates === candidates && table.reference === reference) {
+      return table.matches;
+    }
+
+    const matches = findMatches(reference, candidates);
+    this.tables.set(sourceId, { candidates, reference, matches });
+    console.log(`Deduplicated ${sourceId}: ${matches.length} of ${candidates.length} merchants already on BTCMap`);
+    return matches;
+  }
+
+  apply(loaded: LoadedSource[]): DeduplicatedData {
+    const inputs = loaded.map(({ merchants }) => merchants);
+    if (inputs.length === this.inputs.length && inputs.every((merchants, i) => merchants === this.inputs[i])) {
+      return this.current;
+    }
+
+    const reference = loaded.find(({ source }) => source.info.id === REFERENCE_SOURCE)?.merchants;
+    const merchantsBySource = new Map<string, Merchant[]>();
+    const matches: MerchantMatch[] = [];
+    const stats: DeduplicatedData['stats'] = {};
+
+    for (const { source, merchants } of loaded) {
+      const id = source.info.id;
+      const sourceMatches = reference && source.info.deduplicate && id !== REFERENCE_SOURCE
+        ? this.getMatchTable(id, merchants, reference)
+        : [];
+
+      const duplicateIds = new Set(sourceMatches.map(match => match.id));
+      merchantsBySource.set(id, duplicateIds.size
+        ? merchants.filter(merchant => !duplicateIds.has(merchant.id))
+        : merchants);
+      matches.push(...sourceMatches);
+      stats[id] = {
+        total: merchants.length,
+        unique: merchants.length - duplicateIds.size,
+        duplicates: duplicateIds.size,
+      };
+    }
+
+    // BTCMap merchants borrow the pay link of the merchant they were matched with
+    if (reference) {
+      const byId = new Map(loaded.flatMap(({ merchants }) => merchants.map(merchant => [merchant.id, merchant] as const)));
+      const payUrls = new Map<string, string>();
+      for (const match of matches) {
+        const payUrl = byId.get(match.id)?.payUrl;
+        if (payUrl && !payUrls.has(match.btcmapId)) payUrls.set(match.btcmapId, payUrl);
+      }
+
+      if (payUrls.size) {
+        merchantsBySource.set(REFERENCE_SOURCE, reference.map(merchant =>
+          !merchant.payUrl && payUrls.has(merchant.id)
+            ? { ...merchant, payUrl: payUrls.get(merchant.id) }
+            : merchant
+        ));
+      }
+    }
+
+    this.inputs = inputs;
+    this.current = { merchantsBySource, matches, stats };
+
+    this.storage?.saveMatches(matches).catch(error => {
+      console.error('Failed to persist merchant matches:', error);
+    });
+    return this.current;
+  }
+
+  get matches(): MerchantMatch[] {
+    return this.current.matches;
+  }
+
+  get stats(): DeduplicatedData['stats'] {
+    return this.current.stats;
+  }
+}
+
+export const matchIndex = new MatchIndex();
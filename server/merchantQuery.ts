@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { parseBBox } from "./spatialIndex";
+import { MAX_QUERY_LIMIT } from "./merchants";
+import { MAX_CHANGES_LIMIT } from "./changes";
+
+// Comma separated list, e.g. ?sources=btcmap,blink
+const csvList = z.string()
+  .transform(value => value.split(',').map(item => item.trim()).filter(Boolean));
+
+// Viewport as west,south,east,north
+const bboxParam = z.string()
+  .transform((value, ctx) => {
+    const bbox = parseBBox(value);
+    if (!bbox) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "bbox must be west,south,east,north" });
+      return z.NEVER;
+    }
+    return bbox;
+  });
+
+// Query string parameters accepted by the merchant listing endpoints
+export const merchantQuerySchema = z.object({
+  bbox: bboxParam.optional(),
+  zoom: z.coerce.number().min(0).max(22).optional(),
+  sources: csvList.optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_QUERY_LIMIT).optional(),
+  q: z.string().trim().min(1).optional(),
+  country: z.string().trim().length(2).optional(),
+  category: z.string().trim().min(1).optional(),
+});
+
+// Query string parameters of /api/merchants/nearby, radius in meters
+export const nearbyQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  name: z.string().trim().optional(),
+  radius: z.coerce.number().min(10).max(1000).default(200),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+// Query string parameters of /api/geocode/search, lat/lng prefer results
+// around the point
+export const geocodeSearchQuerySchema = z.object({
+  q: z.string().trim().min(3).max(200),
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  limit: z.coerce.number().int().min(1).max(10).default(5),
+});
+
+// Query string parameters of /api/geocode/reverse
+export const geocodeReverseQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+});
+
+// Query string parameters of /api/merchants/clusters, zoom picks the grid
+export const clusterQuerySchema = z.object({
+  bbox: bboxParam.optional(),
+  zoom: z.coerce.number().min(0).max(22),
+  sources: csvList.optional(),
+});
+
+const position = z.tuple([z.number(), z.number()]).rest(z.number());
+const ring = z.array(position).min(4);
+
+// Drawn area as a GeoJSON Polygon or MultiPolygon geometry
+export const areaSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("Polygon"), coordinates: z.array(ring).min(1) }),
+  z.object({ type: z.literal("MultiPolygon"), coordinates: z.array(z.array(ring).min(1)).min(1) }),
+]);
+
+export type Area = z.infer<typeof areaSchema>;
+
+// JSON encoded area from the query string
+const areaParam = z.string()
+  .transform((value, ctx) => {
+    try {
+      return JSON.parse(value);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "area must be a GeoJSON geometry" });
+      return z.NEVER;
+    }
+  })
+  .pipe(areaSchema);
+
+// Query string parameters of the export endpoints, ?source= takes a list
+export const exportQuerySchema = z.object({
+  bbox: bboxParam.optional(),
+  area: areaParam.optional(),
+  source: csvList.optional(),
+  country: z.string().trim().length(2).optional(),
+  category: z.string().trim().min(1).optional(),
+  duplicates: z.enum(["include", "exclude"]).default("exclude"),
+});
+
+// Query string parameters of /api/changes, since takes an ISO date or timestamp
+export const changeQuerySchema = z.object({
+  since: z.coerce.date().optional(),
+  bbox: bboxParam.optional(),
+  sources: csvList.optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_CHANGES_LIMIT).optional(),
+});
@@ -0,0 +1,250 @@
+import type { DuplicateCandidate, Merchant, MerchantMatch, SourceHealth } from "@shared/schema";
+import { getEnabledSources, type MerchantSource } from "./sources";
+import { upstreamCache } from "./upstreamCache";
+import { SpatialIndex, bboxAround, type BBox } from "./spatialIndex";
+import { matchIndex, type DeduplicatedData, type LoadedSource } from "./matchIndex";
+import { findCountry } from "./countries";
+import { DEDUP_CONFIG, REFERENCE_SOURCE, findSimilarMerchants, rankMerchants } from "./deduplication";
+
+export const DEFAULT_QUERY_LIMIT = 5000;
+export const MAX_QUERY_LIMIT = 20000;
+
+// Meters around a suggested merchant searched for one that's already known,
+// covers the neighbourhood the deduplication of sources compares
+const DUPLICATE_SEARCH_RADIUS = 1000;
+
+export interface MerchantQuery {
+  bbox?: BBox;
+  zoom?: number;
+  sources?: string[];
+  limit?: number;
+  q?: string;              // Case-insensitive name search
+  country?: string;        // ISO country code, from the source or the coordinates
+  category?: string;       // Case-insensitive substring of the category
+  includeDuplicates?: boolean; // Keep merchants hidden as duplicates of BTCMap merchants
+}
+
+export interface MerchantQueryResult {
+  merchants: Merchant[];
+  total: number;           // Matches before the limit was applied
+  truncated: boolean;
+  matches: MerchantMatch[];  // Duplicates hidden behind the returned BTCMap merchants
+  sources: Record<string, SourceHealth>;
+}
+
+// Merchants of a single source, served from the upstream cache
+export function loadSourceMerchants(source: MerchantSource): Promise<Merchant[]> {
+  return upstreamCache.getMerchants(source);
+}
+
+// Deduplicated merchants of every enabled source, sources that fail are
+// logged and skipped
+export async function loadAllMerchants(): Promise<Merchant[]> {
+  const loaded = await loadMerchantsBySource();
+  return loaded.flatMap(({ merchants }) => merchants);
+}
+
+// The cache hands out the same array until a source refreshes, so indexes
+// are rebuilt exactly when the data changes
+const spatialIndexes = new WeakMap<Merchant[], SpatialIndex<Merchant>>();
+
+function getSpatialIndex(merchants: Merchant[]): SpatialIndex<Merchant> {
+  let index = spatialIndexes.get(merchants);
+  if (!index) {
+    index = new SpatialIndex(merchants);
+    spatialIndexes.set(merchants, index);
+  }
+  return index;
+}
+
+// Pick merchants round-robin from screen-sized cells so a truncated result
+// still covers the whole viewport instead of whichever area comes first
+function thinByZoom(merchants: Merchant[], zoom: number, limit: number): Merchant[] {
+  // Roughly 64px cells at the requested zoom level
+  const cellSize = 360 / Math.pow(2, zoom) / 4;
+  const cells = new Map<string, Merchant[]>();
+  for (const merchant of merchants) {
+    const key = `${Math.floor(merchant.latitude / cellSize)},${Math.floor(merchant.longitude / cellSize)}`;
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = [];
+      cells.set(key, cell);
+    }
+    cell.push(merchant);
+  }
+
+  const queues = Array.from(cells.values());
+  const picked: Merchant[] = [];
+  for (let round = 0; picked.length < limit; round++) {
+    let added = false;
+    for (const queue of queues) {
+      if (round < queue.length) {
+        picked.push(queue[round]);
+        added = true;
+        if (picked.length >= limit) break;
+      }
+    }
+    if (!added) break;
+  }
+  return picked;
+}
+
+// Health of the requested (or all enabled) sources, so clients can tell
+// missing data apart from an empty area
+export function getSourceHealth(sourceIds?: string[]): Record<string, SourceHealth> {
+  const health: Record<string, SourceHealth> = {};
+  for (const source of getEnabledSources()) {
+    if (!sourceIds || sourceIds.includes(source.info.id)) {
+      health[source.info.id] = upstreamCache.getHealth(source);
+    }
+  }
+  return health;
+}
+
+// Sources the upstream cache holds data for, without fetching
+function peekCachedSources(): LoadedSource[] {
+  return getEnabledSources().flatMap(source => {
+    const merchants = upstreamCache.peek(source);
+    return merchants ? [{ source, merchants }] : [];
+  });
+}
+
+// Re-run deduplication over whatever the upstream cache currently holds.
+// Cheap when nothing changed, so it runs on every refresh and every query.
+export function updateMatches(): DeduplicatedData {
+  return matchIndex.apply(peekCachedSources());
+}
+
+// Deduplication of the data restored from storage, reusing the stored matches
+export async function restoreMatches(): Promise<DeduplicatedData> {
+  await matchIndex.restore(peekCachedSources());
+  return updateMatches();
+}
+
+// Deduplicated merchants of the requested (or all enabled) sources, one
+// entry per source that could be loaded
+export async function loadMerchantsBySource(sourceIds?: string[]): Promise<{ source: MerchantSource; merchants: Merchant[] }[]> {
+  const sources = sourceIds
+    ? getEnabledSources().filter(source => sourceIds.includes(source.info.id))
+    : getEnabledSources();
+
+  const results = await Promise.allSettled(sources.map(loadSourceMerchants));
+
+  const { merchantsBySource } = updateMatches();
+  const loaded: { source: MerchantSource; merchants: Merchant[] }[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      const id = sources[index].info.id;
+      loaded.push({ source: sources[index], merchants: merchantsBySource.get(id) ?? result.value });
+    } else {
+      console.error(`Error fetching ${sources[index].info.name} merchants:`, result.reason);
+    }
+  });
+  return loaded;
+}
+
+// Countries of merchants whose source doesn't name one, looked up in the
+// bundled boundaries once per merchant. Keyed by the merchant objects so
+// entries go away with the data of a refreshed source.
+const derivedCountries = new WeakMap<Merchant, string | null>();
+
+async function getMerchantCountry(merchant: Merchant): Promise<string | null> {
+  if (merchant.country) return merchant.country.toUpperCase();
+  let code = derivedCountries.get(merchant);
+  if (code === undefined) {
+    code = (await findCountry(merchant.latitude, merchant.longitude))?.code ?? null;
+    derivedCountries.set(merchant, code);
+  }
+  return code;
+}
+
+// Every merchant matching the query filters, zoom and limit are ignored
+export async function findMerchants(query: MerchantQuery): Promise<Merchant[]> {
+  let matches: Merchant[] = [];
+  for (const loaded of await loadMerchantsBySource(query.sources)) {
+    // BTCMap keeps its deduplicated array, it carries the borrowed pay links
+    const merchants = query.includeDuplicates && loaded.source.info.id !== REFERENCE_SOURCE
+      ? upstreamCache.peek(loaded.source) ?? loaded.merchants
+      : loaded.merchants;
+    matches.push(...(query.bbox ? getSpatialIndex(merchants).query(query.bbox) : merchants));
+  }
+
+  if (query.q) {
+    const needle = query.q.toLowerCase();
+    matches = matches.filter(merchant => merchant.name.toLowerCase().includes(needle));
+  }
+  if (query.country) {
+    const country = query.country.toUpperCase();
+    const countries = await Promise.all(matches.map(getMerchantCountry));
+    matches = matches.filter((_, index) => countries[index] === country);
+  }
+  if (query.category) {
+    const needle = query.category.toLowerCase();
+    matches = matches.filter(merchant => merchant.category?.toLowerCase().includes(needle));
+  }
+
+  return matches;
+}
+
+export async function queryMerchants(query: MerchantQuery): Promise<MerchantQueryResult> {
+  let matches = await findMerchants(query);
+
+  // Whole-world requests without an explicit limit keep returning everything
+  const limit = query.limit !== undefined
+    ? Math.min(query.limit, MAX_QUERY_LIMIT)
+    : query.bbox ? DEFAULT_QUERY_LIMIT : Infinity;
+  const total = matches.length;
+  if (total > limit) {
+    matches = query.zoom !== undefined ? thinByZoom(matches, query.zoom, limit) : matches.slice(0, limit);
+  }
+
+  const returnedIds = new Set(matches.map(merchant => merchant.id));
+  return {
+    merchants: matches,
+    total,
+    truncated: total > limit,
+    matches: matchIndex.matches.filter(match => returnedIds.has(match.btcmapId)),
+    sources: getSourceHealth(query.sources),
+  };
+}
+
+// Known merchants of every source, duplicates included, that may be the
+// same place as a suggested merchant
+export async function findPossibleDuplicates(
+  suggested: { name: string; latitude: number; longitude: number }
+): Promise<DuplicateCandidate[]> {
+  const nearby = await findMerchants({
+    bbox: bboxAround(suggested.latitude, suggested.longitude, DUPLICATE_SEARCH_RADIUS),
+    includeDuplicates: true,
+  });
+  return findSimilarMerchants(suggested, nearby);
+}
+
+export interface NearbyQuery {
+  lat: number;
+  lng: number;
+  name?: string;
+  radius: number;          // Meters
+  limit: number;
+}
+
+export interface NearbyResult {
+  merchants: DuplicateCandidate[];
+  threshold: number;       // Score from which a merchant is likely the same place
+}
+
+// Known merchants around a point, ranked by how much they look like the
+// merchant being suggested there
+export async function findNearbyMerchants(query: NearbyQuery): Promise<NearbyResult> {
+  const nearby = await findMerchants({
+    bbox: bboxAround(query.lat, query.lng, query.radius),
+    includeDuplicates: true,
+  });
+  const ranked = rankMerchants({ name: query.name, latitude: query.lat, longitude: query.lng }, nearby)
+    .filter(candidate => candidate.distance <= query.radius);
+
+  return {
+    merchants: ranked.slice(0, query.limit),
+    threshold: DEDUP_CONFIG.NAME_SIMILARITY_THRESHOLD,
+  };
+}
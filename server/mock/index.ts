@@ -0,0 +1,224 @@
+import express, { type Request, type Response } from "express";
+import type { Server } from "http";
+import btcmapElements from "./fixtures/btcmap-elements.json";
+import blinkMarkers from "./fixtures/blink-markers.json";
+import bitcoinPeopleMarkers from "./fixtures/bitcoinpeople-markers.json";
+import bitcoinJungleList from "./fixtures/bitcoinjungle-list.json";
+import nominatimReverse from "./fixtures/nominatim-reverse.json";
+import geocodePlaces from "./fixtures/geocode-places.json";
+import githubIssue from "./fixtures/github-issue.json";
+
+// Minimal GraphQL endpoint answering the queries the server sends
+function graphqlHandler(data: unknown) {
+  return (req: Request, res: Response) => {
+    const query = String(req.body?.query || '');
+    if (query.includes('businessMapMarkers')) {
+      return res.json({ data });
+    }
+    if (query.includes('__schema')) {
+      return res.json({ data: { __schema: { queryType: { name: 'Query', fields: [] }, types: [] } } });
+    }
+    res.status(400).json({ errors: [{ message: 'Query not supported by the mock server' }] });
+  };
+}
+
+type GeocodePlace = (typeof geocodePlaces)[number];
+
+function describePlace(place: GeocodePlace): string {
+  return Object.entries(place).filter(([key]) => key !== 'lat' && key !== 'lon').map(([, value]) => value).join(' ');
+}
+
+function searchPlaces(query: string): GeocodePlace[] {
+  const needle = query.toLowerCase();
+  return needle ? geocodePlaces.filter(place => describePlace(place).toLowerCase().includes(needle)) : [];
+}
+
+// Known place within about a kilometer, compared in degrees
+function findPlace(lat: number, lon: number): GeocodePlace | undefined {
+  return geocodePlaces.find(place => Math.abs(place.lat - lat) < 0.01 && Math.abs(place.lon - lon) < 0.01);
+}
+
+function toNominatimPlace({ name, lat, lon, ...address }: GeocodePlace) {
+  return {
+    lat: String(lat),
+    lon: String(lon),
+    name: name ?? '',
+    display_name: [name, address.house_number, address.road, address.village, address.city, address.country].filter(Boolean).join(', '),
+    address,
+  };
+}
+
+function toPhotonFeature({ name, lat, lon, ...address }: GeocodePlace) {
+  return {
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [lon, lat] },
+    properties: {
+      name,
+      street: address.road,
+      housenumber: address.house_number,
+      city: address.city ?? address.village,
+      country: address.country,
+      countrycode: address.country_code.toUpperCase(),
+    },
+  };
+}
+
+// Stand-ins for BTCMap, Blink, Bitcoin People, Bitcoin Jungle, Nominatim,
+// Photon and GitHub that answer from recorded fixtures, so the app runs offline
+export function createMockUpstreamApp() {
+  const app = express();
+  app.use(express.json());
+
+  // Issues created during this run, GitHub's own state is never touched
+  const issues = new Map<string, any>();
+  let nextIssueNumber = 1;
+
+  // BTCMap incremental sync: elements changed since the given time, oldest first
+  app.get("/btcmap/v2/elements", (req, res) => {
+    const since = String(req.query.updated_since || '');
+    const limit = Number(req.query.limit) || btcmapElements.length;
+    const changed = btcmapElements
+      .filter(element => element.updated_at > since)
+      .sort((a, b) => a.updated_at.localeCompare(b.updated_at))
+      .slice(0, limit);
+    res.json(changed);
+  });
+
+  app.post("/blink/graphql", graphqlHandler(blinkMarkers));
+  app.post("/bitcoinpeople/graphql", graphqlHandler(bitcoinPeopleMarkers));
+  app.post("/bitcoinjungle/graphql", graphqlHandler({ businessMapMarkers: [] }));
+
+  app.get("/bitcoinjungle/api/list", (_req, res) => {
+    res.json(bitcoinJungleList);
+  });
+
+  // Addresses come from a handful of known places, searched by substring
+  // and reverse geocoded when a point is within about a kilometer of one.
+  // Country lookups (zoom 3) are matched by bounding box, anything else is
+  // unknown.
+  app.get("/nominatim/search", (req, res) => {
+    const limit = Number(req.query.limit) || 10;
+    res.json(searchPlaces(String(req.query.q || '')).slice(0, limit).map(toNominatimPlace));
+  });
+
+  app.get("/nominatim/reverse", (req, res) => {
+    const lat = Number(req.query.lat);
+    const lon = Number(req.query.lon);
+    const place = Number(req.query.zoom) > 3 ? findPlace(lat, lon) : undefined;
+    if (place) {
+      return res.json(toNominatimPlace(place));
+    }
+    const match = nominatimReverse.find(({ bbox: [west, south, east, north] }) =>
+      lat >= south && lat <= north && lon >= west && lon <= east
+    );
+    res.json(match ? match.response : { error: 'Unable to geocode' });
+  });
+
+  app.get("/photon/api", (req, res) => {
+    const limit = Number(req.query.limit) || 10;
+    res.json({ type: 'FeatureCollection', features: searchPlaces(String(req.query.q || '')).slice(0, limit).map(toPhotonFeature) });
+  });
+
+  app.get("/photon/reverse", (req, res) => {
+    const place = findPlace(Number(req.query.lat), Number(req.query.lon));
+    res.json({ type: 'FeatureCollection', features: place ? [toPhotonFeature(place)] : [] });
+  });
+
+  app.post("/github/repos/:owner/:repo/issues", (req, res) => {
+    if (!req.body?.title) {
+      return res.status(422).json({ message: 'Validation Failed', errors: [{ field: 'title', code: 'missing_field' }] });
+    }
+
+    const { owner, repo } = req.params;
+    const number = nextIssueNumber++;
+    const now = new Date().toISOString();
+    const issue = {
+      ...githubIssue,
+      id: githubIssue.id + number,
+      number,
+      title: req.body.title,
+      body: req.body.body || '',
+      labels: (req.body.labels || []).map((label: any, index: number) => ({
+        id: index + 1,
+        ...(typeof label === 'string' ? { name: label } : label),
+      })),
+      url: `https://api.github.com/repos/${owner}/${repo}/issues/${number}`,
+      html_url: `https://github.com/${owner}/${repo}/issues/${number}`,
+      created_at: now,
+      updated_at: now,
+    };
+    issues.set(`${owner}/${repo}#${number}`, issue);
+    console.log(`[mock] Created GitHub issue ${owner}/${repo}#${number}: ${issue.title}`);
+    res.status(201).json(issue);
+  });
+
+  // Issues of a repository, filtered and paged like GitHub does
+  app.get("/github/repos/:owner/:repo/issues", (req, res) => {
+    const { owner, repo } = req.params;
+    const labels = String(req.query.labels || '').split(',').filter(Boolean);
+    const state = String(req.query.state || 'open');
+    const since = String(req.query.since || '');
+    const perPage = Number(req.query.per_page) || 30;
+    const page = Number(req.query.page) || 1;
+
+    const matching = Array.from(issues.entries())
+      .filter(([key]) => key.startsWith(`${owner}/${repo}#`))
+      .map(([, issue]) => issue)
+      .filter(issue => state === 'all' || issue.state === state)
+      .filter(issue => labels.every(name => issue.labels.some((label: any) => label.name === name)))
+      .filter(issue => !since || issue.updated_at >= since);
+    res.json(matching.slice((page - 1) * perPage, page * perPage));
+  });
+
+  // Lets a run close, reopen or relabel an issue as a maintainer would
+  app.patch("/github/repos/:owner/:repo/issues/:number", (req, res) => {
+    const { owner, repo, number } = req.params;
+    const issue = issues.get(`${owner}/${repo}#${number}`);
+    if (!issue) {
+      return res.status(404).json({ message: 'Not Found' });
+    }
+
+    const now = new Date().toISOString();
+    const { state, state_reason, labels } = req.body || {};
+    if (state) {
+      issue.state = state;
+      issue.state_reason = state === 'closed' ? state_reason || 'completed' : 'reopened';
+      issue.closed_at = state === 'closed' ? now : null;
+    }
+    if (labels) {
+      issue.labels = labels.map((label: any, index: number) => ({
+        id: index + 1,
+        ...(typeof label === 'string' ? { name: label } : label),
+      }));
+    }
+    issue.updated_at = now;
+    res.json(issue);
+  });
+
+  app.get("/github/repos/:owner/:repo/issues/:number", (req, res) => {
+    const { owner, repo, number } = req.params;
+    const issue = issues.get(`${owner}/${repo}#${number}`);
+    if (!issue) {
+      return res.status(404).json({ message: 'Not Found' });
+    }
+    res.json(issue);
+  });
+
+  app.use((req, res) => {
+    res.status(404).json({ message: `No mock for ${req.method} ${req.path}` });
+  });
+
+  return app;
+}
+
+// Serve the mocks on a loopback port, resolving once requests are accepted
+export function startMockUpstreams(port: number): Promise<Server> {
+  return new Promise((resolve, reject) => {
+    const server = createMockUpstreamApp()
+      .listen(port, "127.0.0.1", () => {
+        console.log(`Mock upstreams serving on http://127.0.0.1:${port}`);
+        resolve(server);
+      })
+      .on('error', reject);
+  });
+}
@@ -0,0 +1,130 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+
+// A free port for the mock upstreams, getMockUpstreamPort() reads it as a number
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+const WEBHOOK_SECRET = "mock-webhook-secret";
+
+// The app in mock mode, end to end: sources synced from the mock upstreams,
+// suggestions filed as mock GitHub issues and read back from webhooks
+describe("mock mode", () => {
+  let server: Server;
+  let baseUrl: string;
+  let mockUrl: string;
+
+  before(async () => {
+    const mockPort = await freePort();
+    Object.assign(process.env, {
+      MOCK_UPSTREAMS: "true",
+      MOCK_UPSTREAM_PORT: String(mockPort),
+      POW_DIFFICULTY: "0",
+      GITHUB_WEBHOOK_SECRET: WEBHOOK_SECRET,
+    });
+    mockUrl = `http://127.0.0.1:${mockPort}`;
+
+    // Imported late so the routes see the environment above
+    const { registerRoutes } = await import("../routes");
+    const app = express();
+    app.use(express.json({
+      verify: (req, _res, buf) => {
+        req.rawBody = buf;
+      }
+    }));
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  async function post(path: string, body: unknown, headers: Record<string, string> = {}) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  function sendWebhook(payload: unknown, secret = WEBHOOK_SECRET) {
+    const body = JSON.stringify(payload);
+    return fetch(`${baseUrl}/api/github/webhook`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-GitHub-Event": "issues",
+        "X-Hub-Signature-256": `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`,
+      },
+      body,
+    });
+  }
+
+  it("serves merchants synced from every source", async () => {
+    const response = await fetch(`${baseUrl}/api/merchants`);
+    assert.equal(response.status, 200);
+    const { merchants } = await response.json();
+    const sources = new Set(merchants.map((merchant: { source: string }) => merchant.source));
+    for (const source of ["btcmap", "blink", "bitcoinjungle", "bitcoinpeople"]) {
+      assert.ok(sources.has(source), `no merchants from ${source}`);
+    }
+  });
+
+  let submissionId: string;
+  let issueNumber: number;
+
+  it("files a suggestion as a GitHub issue", async () => {
+    const challenge = await (await fetch(`${baseUrl}/api/submissions/challenge`)).json();
+    const created = await post("/api/merchants", {
+      name: "Panaderia Smoke Test",
+      address: "Calle 5, Tamarindo",
+      latitude: 10.2993,
+      longitude: -85.8371,
+      paymentMethods: ["lightning"],
+      dataSource: "I visited as a customer",
+      pow: { challenge: challenge.challenge, nonce: "0" },
+    });
+    assert.equal(created.status, 201, JSON.stringify(created.body));
+    assert.equal(created.body.status, "open");
+    assert.match(created.body.issueUrl, /mock\/merchant-submissions\/issues\/\d+$/);
+
+    submissionId = created.body.id;
+    issueNumber = Number(created.body.issueUrl.split("/").pop());
+  });
+
+  it("marks the suggestion added when the issue is closed as completed", async () => {
+    // Closed by a maintainer, the mock answers with the issue as GitHub would
+    const closed = await fetch(`${mockUrl}/github/repos/mock/merchant-submissions/issues/${issueNumber}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ state: "closed", state_reason: "completed" }),
+    });
+    const payload = {
+      action: "closed",
+      issue: await closed.json(),
+      repository: { full_name: "mock/merchant-submissions" },
+    };
+
+    assert.equal((await sendWebhook(payload, "wrong-secret")).status, 401);
+
+    const response = await sendWebhook(payload);
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { id: submissionId, status: "added" });
+
+    const submission = await (await fetch(`${baseUrl}/api/submissions/${submissionId}`)).json();
+    assert.equal(submission.status, "added");
+    assert.equal(submission.merchant.name, "Panaderia Smoke Test");
+  });
+});
@@ -0,0 +1,66 @@
+import { getUpstreamUrl } from "./upstreams";
+import { UpstreamError, upstreamClient } from "./upstreamClient";
+
+// Nominatim's usage policy allows one request per second
+const MIN_REQUEST_INTERVAL = 1000;
+
+// Requests allowed to wait for their turn. Further ones are refused, so a
+// burst of lookups can't hold everyone up or pile up in memory.
+const MAX_QUEUED_REQUESTS = 10;
+
+export class NominatimBusyError extends Error {
+  constructor() {
+    super('Too many Nominatim requests waiting, try again shortly');
+    this.name = 'NominatimBusyError';
+  }
+}
+
+// Every request to Nominatim, from address lookups and the country
+// fallback alike, goes through this queue and is sent one at a time
+export class NominatimClient {
+  private queue: Promise<unknown> = Promise.resolve();
+  private queued = 0;
+  private lastRequestAt = 0;
+
+  // GET a path like /reverse?..., rejects with NominatimBusyError when the
+  // queue is full. Interactive lookups fail fast instead of retrying.
+  request<T = any>(path: string): Promise<T> {
+    if (this.queued >= MAX_QUEUED_REQUESTS) {
+      return Promise.reject(new NominatimBusyError());
+    }
+    this.queued++;
+
+    const next = this.queue
+      .then(async () => {
+        const wait = this.lastRequestAt + MIN_REQUEST_INTERVAL - Date.now();
+        if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+        this.lastRequestAt = Date.now();
+        return this.fetch<T>(path);
+      })
+      .finally(() => {
+        this.queued--;
+      });
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private fetch<T>(path: string): Promise<T> {
+    const url = `${getUpstreamUrl('nominatim')}${path}`;
+    return upstreamClient.call('Nominatim', async signal => {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': 'BitcoinMapEditor/1.0',
+          'Accept': 'application/json',
+          'Accept-Language': 'en'
+        },
+        signal,
+      });
+      if (!response.ok) {
+        throw new UpstreamError(`Nominatim API error: ${response.status} ${response.statusText}`, response.status);
+      }
+      return response.json();
+    }, { timeout: 5 * 1000, retries: 0 });
+  }
+}
+
+export const nominatim = new NominatimClient();
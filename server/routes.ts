@@ -1,212 +1,345 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
 import { insertMerchantSchema } from "@shared/schema";
 import { fromZodError } from "zod-validation-error";
 import { request, gql } from 'graphql-request';
 import { ZodError } from "zod";
 import * as dotenv from 'dotenv';
+import { findNearbyMerchants, findPossibleDuplicates, getSourceHealth, loadMerchantsBySource, loadSourceMerchants, queryMerchants, restoreMatches, updateMatches } from "./merchants";
+import { changeQuerySchema, clusterQuerySchema, exportQuerySchema, geocodeReverseQuerySchema, geocodeSearchQuerySchema, merchantQuerySchema, nearbyQuerySchema } from "./merchantQuery";
+import { EXPORT_FORMATS, exportMerchants, isExportFormat } from "./export";
+import { queryClusters } from "./clusters";
+import { upstreamCache } from "./upstreamCache";
+import { matchIndex } from "./matchIndex";
+import { changeLog } from "./changes";
+import { getEnabledSources, getSource, registerCustomFeeds } from "./sources";
+import { getMockUpstreamPort, getUpstreamUrl, isMockMode } from "./upstreams";
+import { getGitHubConfig, getWebhookSecret, verifyWebhookSignature } from "./github";
+import { submissions, toPublicSubmission } from "./submissions";
+import { getGeocoder } from "./geocoding";
+import { HONEYPOT_FIELD, contactRateLimiter, geocodeRateLimiter, getModerationToken, ipRateLimiter, proofOfWork, scoreSpam, verifyModerationToken } from "./abuse";
+import { NominatimBusyError } from "./nominatim";
+import { startMockUpstreams } from "./mock";
+import { loadCountryBoundaries } from "./countries";
+import { createStorage, getStorageKind } from "./storage";
 
 // Load environment variables
 dotenv.config();
 
-const BLINK_API = process.env.BLINK_API || 'https://api.blink.sv/graphql';
-const BITCOIN_JUNGLE_API = process.env.BITCOIN_JUNGLE_API || 'https://api.mainnet.bitcoinjungle.app/graphql';
-
-// Check for required environment variables
-const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
-const GITHUB_REPO = process.env.GITHUB_REPO?.replace('https://github.com/', '') || '';
-
-if (!GITHUB_TOKEN || !GITHUB_REPO) {
-  console.error('Missing required environment variables: GITHUB_TOKEN and/or GITHUB_REPO');
-  process.exit(1);
+if (!getGitHubConfig()) {
+  console.warn('GITHUB_TOKEN and/or GITHUB_REPO not set, merchant suggestions are disabled');
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Add a status endpoint to verify server is running
+  // Upstreams must accept requests before the cache warms up
+  const mockUpstreams = isMockMode() ? await startMockUpstreams(getMockUpstreamPort()) : null;
+
+  registerCustomFeeds();
+  await loadCountryBoundaries();
+
+  // Persist every sync to the configured storage, and start from the stored
+  // data so merchants are served even while upstreams are down
+  const storage = await createStorage();
+  console.log(`Using ${getStorageKind()} storage`);
+  upstreamCache.persistTo(storage);
+  matchIndex.persistTo(storage);
+  changeLog.persistTo(storage);
+  submissions.persistTo(storage);
+  await upstreamCache.restore(getEnabledSources());
+  await restoreMatches();
+
+  // Deduplicate as soon as new data arrives instead of on the next request,
+  // and log what changed since the previous sync
+  upstreamCache.onRefresh(() => updateMatches());
+  upstreamCache.onRefresh((source, merchants, previous) => {
+    if (previous) changeLog.record(source, previous, merchants);
+  });
+  upstreamCache.startBackgroundRefresh(getEnabledSources);
+
+  // File suggestions GitHub rejected earlier, including ones from before a
+  // restart, and follow the issues of filed ones
+  submissions.startBackgroundTasks();
+
+  // Add a status endpoint to verify server is running, with the health of
+  // every enabled upstream source
   app.get("/api/status", (_req, res) => {
-    res.json({ status: "ok" });
+    res.json({ status: "ok", sources: Object.values(getSourceHealth()) });
+  });
+
+  // Branding and metadata of the enabled merchant sources
+  app.get("/api/sources", (_req, res) => {
+    res.json(getEnabledSources().map(source => source.info));
   });
 
-  // Updated /api/merchants endpoint to aggregate data from all sources
-  app.get("/api/merchants", async (_req, res) => {
+  // Aggregate normalized merchants from all sources, optionally limited to a
+  // viewport: ?bbox=west,south,east,north&zoom=&sources=btcmap,blink&limit=&q=
+  app.get("/api/merchants", async (req, res) => {
     try {
-      // Fetch data from all sources in parallel
-      const [btcMapResponse, blinkResponse, bitcoinJungleResponse] = await Promise.allSettled([
-        fetch("https://api.btcmap.org/v2/elements", {
-          headers: {
-            'Accept': 'application/json',
-            'User-Agent': 'BTCMap-Frontend/1.0'
-          }
-        }),
-        request(
-          BLINK_API,
-          gql`
-            query GetBusinessMapMarkers {
-              businessMapMarkers {
-                username
-                mapInfo {
-                  coordinates {
-                    latitude
-                    longitude
-                  }
-                  title
-                }
-              }
-            }
-          `,
-          {},
-          {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          }
-        ),
-        fetch('https://maps.bitcoinjungle.app/api/list', {
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          }
-        })
-      ]);
+      const query = merchantQuerySchema.parse(req.query);
 
-      // Process BTCMap data
-      let btcMapData = [];
-      if (btcMapResponse.status === 'fulfilled' && btcMapResponse.value.ok) {
-        btcMapData = await btcMapResponse.value.json();
+      // Served from the upstream cache, stale sources revalidate in the background
+      res.json(await queryMerchants(query));
+    } catch (error) {
+      console.error('Error fetching merchants:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
       }
+      res.status(500).json({
+        message: "Failed to fetch merchants",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
 
-      // Process Blink data
-      let blinkData = [];
-      if (blinkResponse.status === 'fulfilled') {
-        blinkData = blinkResponse.value.businessMapMarkers || [];
+  // Precomputed clusters (count, centroid, per-source breakdown) for a zoom
+  // level, individual merchants once zoomed in far enough:
+  // ?bbox=west,south,east,north&zoom=&sources=btcmap,blink
+  app.get("/api/merchants/clusters", async (req, res) => {
+    try {
+      const query = clusterQuerySchema.parse(req.query);
+      res.json(await queryClusters(query));
+    } catch (error) {
+      console.error('Error clustering merchants:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
       }
+      res.status(500).json({
+        message: "Failed to cluster merchants",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
 
-      // Process Bitcoin Jungle data
-      let bitcoinJungleData = [];
-      if (bitcoinJungleResponse.status === 'fulfilled' && bitcoinJungleResponse.value.ok) {
-        const response = await bitcoinJungleResponse.value.json();
-        bitcoinJungleData = response.locations || [];
+  // Known merchants around a point being suggested, ranked by similarity to
+  // the name typed so far: ?lat=&lng=&name=&radius=200&limit=5
+  app.get("/api/merchants/nearby", async (req, res) => {
+    try {
+      const query = nearbyQuerySchema.parse(req.query);
+      res.json(await findNearbyMerchants(query));
+    } catch (error) {
+      console.error('Error fetching nearby merchants:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
       }
+      res.status(500).json({
+        message: "Failed to fetch nearby merchants",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
 
-      // Return combined data
-      res.json({
-        btcmap: btcMapData,
-        blink: blinkData,
-        bitcoinjungle: bitcoinJungleData
+  // Places matching an address typed in the suggestion form, from the
+  // geocoder picked with GEOCODER: ?q=&lat=&lng=&limit=5. Lookups are rate
+  // limited per IP and answered with 503 while the Nominatim queue is full.
+  app.get("/api/geocode/search", async (req, res) => {
+    const rateLimit = geocodeRateLimiter.hit(req.ip ?? 'unknown');
+    if (!rateLimit.allowed) {
+      res.set('Retry-After', String(rateLimit.retryAfter));
+      return res.status(429).json({ message: "Too many address lookups, please try again later" });
+    }
+
+    try {
+      const { q, lat, lng, limit } = geocodeSearchQuerySchema.parse(req.query);
+      const near = lat !== undefined && lng !== undefined ? { lat, lng } : undefined;
+      res.json(await getGeocoder().search(q, { limit, near }));
+    } catch (error) {
+      console.error('Error searching addresses:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof NominatimBusyError) {
+        res.set('Retry-After', '1');
+        return res.status(503).json({ message: error.message });
+      }
+      res.status(500).json({
+        message: "Failed to search addresses",
+        error: error instanceof Error ? error.message : "Unknown error"
       });
+    }
+  });
 
+  // Address of a point, used to fill in the address of a suggestion: ?lat=&lng=
+  app.get("/api/geocode/reverse", async (req, res) => {
+    const rateLimit = geocodeRateLimiter.hit(req.ip ?? 'unknown');
+    if (!rateLimit.allowed) {
+      res.set('Retry-After', String(rateLimit.retryAfter));
+      return res.status(429).json({ message: "Too many address lookups, please try again later" });
+    }
+
+    try {
+      const { lat, lng } = geocodeReverseQuerySchema.parse(req.query);
+      const result = await getGeocoder().reverse(lat, lng);
+      if (!result) {
+        return res.status(404).json({ message: "No address found for this location" });
+      }
+      res.json(result);
     } catch (error) {
-      console.error('Error fetching merchants:', error);
+      console.error('Error looking up address:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof NominatimBusyError) {
+        res.set('Retry-After', '1');
+        return res.status(503).json({ message: error.message });
+      }
       res.status(500).json({
-        message: "Failed to fetch merchants",
+        message: "Failed to look up address",
         error: error instanceof Error ? error.message : "Unknown error"
       });
     }
   });
 
-  app.post("/api/merchants", async (req, res) => {
+  // Full match table of merchants hidden as duplicates of BTCMap merchants,
+  // with per-source totals
+  app.get("/api/merchants/matches", async (_req, res) => {
     try {
-      const merchantData = insertMerchantSchema.parse(req.body);
+      await loadMerchantsBySource();
+      const { matches, stats } = updateMatches();
+      res.json({ matches, stats });
+    } catch (error) {
+      console.error('Error fetching merchant matches:', error);
+      res.status(500).json({
+        message: "Failed to fetch merchant matches",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
 
-      // Get country from coordinates using Nominatim OpenStreetMap API
-      let country = '';
-      try {
-        const response = await fetch(
-          `https://nominatim.openstreetmap.org/reverse?format=json&lat=${merchantData.latitude}&lon=${merchantData.longitude}&zoom=3&accept-language=en`,
-          {
-            headers: {
-              'User-Agent': 'BitcoinMapEditor/1.0',
-              'Accept': 'application/json',
-              'Accept-Language': 'en'
-            }
-          }
-        );
+  // Merchants added, removed, moved or renamed per source, newest first:
+  // ?since=2024-01-01T00:00:00Z&bbox=west,south,east,north&sources=&limit=
+  // since defaults to the last 7 days
+  app.get("/api/changes", async (req, res) => {
+    try {
+      const query = changeQuerySchema.parse(req.query);
+      res.json(await changeLog.query(query));
+    } catch (error) {
+      console.error('Error fetching merchant changes:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({
+        message: "Failed to fetch merchant changes",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
 
-        if (!response.ok) {
-          throw new Error(`Nominatim API error: ${response.statusText}`);
-        }
+  // Combined dataset for partners, GIS tools and GPS apps as geojson, csv,
+  // kml or gpx: ?bbox=west,south,east,north&area=<GeoJSON polygon>
+  // &source=btcmap,blink&country=SV&category=cafe&duplicates=include
+  app.get("/api/export/merchants.:format", async (req, res) => {
+    const { format } = req.params;
+    if (!isExportFormat(format)) {
+      return res.status(404).json({ message: `Unknown export format: ${format}` });
+    }
 
-        const data = await response.json();
-        console.log('Nominatim API response:', data);
+    try {
+      const query = exportQuerySchema.parse(req.query);
+      const body = await exportMerchants(format, {
+        bbox: query.bbox,
+        area: query.area,
+        sources: query.source,
+        country: query.country,
+        category: query.category,
+        includeDuplicates: query.duplicates === "include",
+      });
 
-        if (data.address && data.address.country) {
-          country = data.address.country;
-          console.log('Found country:', country);
-        } else {
-          console.warn('No country found in Nominatim response:', data);
-        }
-      } catch (error) {
-        console.error('Error getting country from coordinates:', error);
-        // Continue with empty country if geocoding fails
+      // Other web maps load the file straight from here
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      res.setHeader('Content-Disposition', `attachment; filename="merchants.${format}"`);
+      res.type(EXPORT_FORMATS[format].contentType).send(body);
+    } catch (error) {
+      console.error('Error exporting merchants:', error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
       }
-
-      // Format the issue body according to the specified template
-      const issueBody = `
-Merchant name: ${merchantData.name}
-Country: ${country}
-Communities:
-Address: ${merchantData.address || ''}
-Lat: ${merchantData.latitude}
-Long: ${merchantData.longitude}
-OSM: https://www.openstreetmap.org/edit#map=21/${merchantData.latitude}/${merchantData.longitude}
-Category: ${merchantData.type || ''}
-Payment methods: ${merchantData.paymentMethods?.join(',') || ''}
-Website: ${merchantData.website || ''}
-Phone: ${merchantData.phone || ''}
-Opening hours: ${merchantData.openingHours || ''}
-Twitter merchant: ${merchantData.twitterMerchant || ''}
-Twitter submitter: ${merchantData.twitterSubmitter || ''}
-Notes: ${merchantData.notes || ''}
-Data Source: ${merchantData.dataSource || 'User Submission'}
-Contact: ${merchantData.contact || ''}
-Status: Todo
-Created at: ${new Date().toISOString()}
-`;
-
-      console.log('Creating GitHub issue with token:', GITHUB_TOKEN ? 'Token present' : 'Token missing');
-
-      // Log GitHub API request details for debugging
-      console.log('GitHub API request:', {
-        repo: GITHUB_REPO,
-        url: `https://api.github.com/repos/${GITHUB_REPO}/issues`,
-        tokenPresent: Boolean(GITHUB_TOKEN),
-        merchantName: merchantData.name
+      res.status(500).json({
+        message: "Failed to export merchants",
+        error: error instanceof Error ? error.message : "Unknown error"
       });
+    }
+  });
 
-      // Create GitHub issue
-      const response = await fetch(`https://api.github.com/repos/${GITHUB_REPO}/issues`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `token ${GITHUB_TOKEN}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          title: merchantData.name,
-          body: issueBody,
-          labels: [
-            ...(country ? [country] : []),
-            'good first issue',
-            'help wanted',
-            { name: 'blink-submission', description: 'Submitted from Blink Map' }
-          ]
-        })
+  // Proof-of-work challenge the form solves before each suggestion
+  app.get("/api/submissions/challenge", (_req, res) => {
+    res.set('Cache-Control', 'no-store');
+    res.json(proofOfWork.createChallenge());
+  });
+
+  // Merchant suggestions are stored first and filed as GitHub issues, a
+  // suggestion GitHub didn't accept yet is answered with 202 and retried.
+  // Suggestions resembling known merchants are answered with 409 and the
+  // matches until they're sent again with confirmDuplicates: true.
+  // Suggestions need a solved challenge in `pow`, are rate limited per IP
+  // and contact, and likely spam is held for moderation.
+  app.post("/api/merchants", async (req, res) => {
+    if (!getGitHubConfig()) {
+      return res.status(503).json({ message: "Merchant suggestions are not configured on this server" });
+    }
+
+    // Look like a success so bots don't learn about the field
+    if (req.body?.[HONEYPOT_FIELD]) {
+      console.warn(`Dropped merchant suggestion from ${req.ip} that filled in the honeypot`);
+      return res.status(202).json({
+        message: "Merchant suggestion saved, it will be filed shortly",
+        id: randomUUID(),
+        status: 'pending'
       });
+    }
+
+    // Only suggestions that get stored count towards the limits, so fixing a
+    // validation error or confirming a possible duplicate costs nothing
+    const ipKey = req.ip ?? 'unknown';
+    const ipLimit = ipRateLimiter.check(ipKey);
+    if (!ipLimit.allowed) {
+      res.set('Retry-After', String(ipLimit.retryAfter));
+      return res.status(429).json({ message: "Too many suggestions, please try again later" });
+    }
+
+    try {
+      const merchantData = insertMerchantSchema.parse(req.body);
+
+      const powError = proofOfWork.verify(req.body.pow?.challenge, req.body.pow?.nonce);
+      if (powError) {
+        return res.status(400).json({ message: powError });
+      }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('GitHub API error:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorText,
-          requestUrl: `https://api.github.com/repos/${GITHUB_REPO}/issues`
+      const contactKey = merchantData.contact?.trim().toLowerCase();
+      if (contactKey) {
+        const contactLimit = contactRateLimiter.check(contactKey);
+        if (!contactLimit.allowed) {
+          res.set('Retry-After', String(contactLimit.retryAfter));
+          return res.status(429).json({ message: "Too many suggestions with this contact, please try again later" });
+        }
+      }
+
+      // Let the submitter confirm it's a different place before volunteers
+      // spend time on it
+      const duplicates = await findPossibleDuplicates(merchantData);
+      if (duplicates.length && req.body.confirmDuplicates !== true) {
+        return res.status(409).json({
+          message: "This merchant may already be on the map",
+          duplicates
         });
-        throw new Error(`GitHub API error: ${response.status} - ${errorText}`);
       }
 
-      const issue = await response.json();
+      const submission = await submissions.submit(merchantData, duplicates, scoreSpam(merchantData));
+      ipRateLimiter.hit(ipKey);
+      if (contactKey) contactRateLimiter.hit(contactKey);
+
+      if (submission.status === 'pending' || submission.status === 'held') {
+        return res.status(202).json({
+          message: "Merchant suggestion saved, it will be filed shortly",
+          id: submission.id,
+          status: submission.status
+        });
+      }
       res.status(201).json({
         message: "Merchant suggestion submitted successfully",
-        issueUrl: issue.html_url
+        id: submission.id,
+        status: submission.status,
+        issueUrl: submission.issueUrl
       });
     } catch (error) {
       console.error('Error creating merchant suggestion:', error);
@@ -222,93 +355,160 @@ Created at: ${new Date().toISOString()}
     }
   });
 
-  app.get("/api/btcmap/merchants", async (_req, res) => {
+  // Status of a merchant suggestion, without the submitter's contact details
+  app.get("/api/submissions/:id", async (req, res) => {
     try {
-      const response = await fetch("https://api.btcmap.org/v2/elements", {
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'BTCMap-Frontend/1.0'
-        }
+      const submission = await submissions.get(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      res.json(toPublicSubmission(submission));
+    } catch (error) {
+      console.error('Error fetching submission:', error);
+      res.status(500).json({
+        message: "Failed to fetch submission",
+        error: error instanceof Error ? error.message : "Unknown error"
       });
+    }
+  });
 
-      if (!response.ok) {
-        throw new Error(`BTCMap API error: ${response.statusText}`);
-      }
+  // Held suggestions for moderators, authenticated with MODERATION_TOKEN
+  app.get("/api/moderation/submissions", async (req, res) => {
+    const token = getModerationToken();
+    if (!token) {
+      return res.status(503).json({ message: "Moderation is not configured on this server" });
+    }
+    if (!verifyModerationToken(token, req.get('Authorization'))) {
+      return res.status(401).json({ message: "Invalid moderation token" });
+    }
 
-      const data = await response.json();
-      res.json(data);
+    try {
+      res.json(await submissions.listHeld());
     } catch (error) {
-      console.error('BTCMap API error:', error);
+      console.error('Error fetching held submissions:', error);
       res.status(500).json({
-        message: "Failed to fetch merchants from BTCMap",
+        message: "Failed to fetch held submissions",
         error: error instanceof Error ? error.message : "Unknown error"
       });
     }
   });
 
-  app.get("/api/blink/merchants", async (_req, res) => {
+  app.post("/api/moderation/submissions/:id/:action(approve|reject)", async (req, res) => {
+    const token = getModerationToken();
+    if (!token) {
+      return res.status(503).json({ message: "Moderation is not configured on this server" });
+    }
+    if (!verifyModerationToken(token, req.get('Authorization'))) {
+      return res.status(401).json({ message: "Invalid moderation token" });
+    }
+
     try {
-      console.log('Querying Blink API...');
-      const query = gql`
-        query GetBusinessMapMarkers {
-          businessMapMarkers {
-            username
-            mapInfo {
-              coordinates {
-                latitude
-                longitude
-              }
-              title
-            }
-          }
-        }
-      `;
+      const note = typeof req.body?.note === 'string' ? req.body.note : undefined;
+      const submission = await submissions.moderate(req.params.id, req.params.action === 'approve', note);
+      if (!submission) {
+        return res.status(404).json({ message: "No held submission with this id" });
+      }
+      res.json({ id: submission.id, status: submission.status, issueUrl: submission.issueUrl });
+    } catch (error) {
+      console.error('Error moderating submission:', error);
+      res.status(500).json({
+        message: "Failed to moderate submission",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
 
-      const data = await request(
-        BLINK_API,
-        query,
-        {},
-        {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        }
-      );
+  // Webhook of the submission repository. Subscribe it to "Issues" and
+  // "Issue comments" with content type application/json and the secret set
+  // in GITHUB_WEBHOOK_SECRET.
+  app.post("/api/github/webhook", async (req, res) => {
+    const secret = getWebhookSecret();
+    if (!secret) {
+      return res.status(503).json({ message: "GitHub webhooks are not configured on this server" });
+    }
+    if (!req.rawBody || !verifyWebhookSignature(secret, req.rawBody, req.get('X-Hub-Signature-256'))) {
+      return res.status(401).json({ message: "Invalid webhook signature" });
+    }
 
-      if (!data?.businessMapMarkers) {
-        throw new Error('No business map markers returned from Blink API');
-      }
+    const event = req.get('X-GitHub-Event');
+    if (event === 'ping') {
+      return res.json({ message: "pong" });
+    }
+    if (event !== 'issues' && event !== 'issue_comment') {
+      return res.status(202).json({ message: `Ignored ${event} event` });
+    }
 
-      res.json(data.businessMapMarkers);
+    try {
+      const submission = await submissions.handleWebhook(event, req.body);
+      if (!submission) {
+        return res.status(202).json({ message: "Not a merchant submission issue" });
+      }
+      res.json({ id: submission.id, status: submission.status });
     } catch (error) {
-      console.error('Blink API error:', error);
+      console.error('Error handling GitHub webhook:', error);
       res.status(500).json({
-        message: "Failed to fetch merchants from Blink",
+        message: "Failed to handle GitHub webhook",
         error: error instanceof Error ? error.message : "Unknown error"
       });
     }
   });
 
-  app.get("/api/bitcoinjungle/merchants", async (_req, res) => {
+  app.get("/api/:source/merchants", async (req, res) => {
+    const source = getSource(req.params.source);
+    if (!source) {
+      return res.status(404).json({ message: `Unknown merchant source: ${req.params.source}` });
+    }
+
     try {
-      console.log('Fetching Bitcoin Jungle merchants from /api/list endpoint...');
+      console.log(`Fetching ${source.info.name} merchants...`);
+      res.json(await loadSourceMerchants(source));
+    } catch (error) {
+      console.error(`${source.info.name} API error:`, error);
+      res.status(500).json({
+        message: `Failed to fetch merchants from ${source.info.name}`,
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
 
-      const response = await fetch('https://maps.bitcoinjungle.app/api/list', {
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        }
+  // Dated snapshots of a source within the retention period, newest first
+  app.get("/api/:source/snapshots", async (req, res) => {
+    const source = getSource(req.params.source);
+    if (!source) {
+      return res.status(404).json({ message: `Unknown merchant source: ${req.params.source}` });
+    }
+
+    try {
+      const snapshots = await storage.listSourceSnapshots(source.info.id);
+      res.json(snapshots.map(({ id, syncedAt, merchantCount }) => ({ id, syncedAt, merchantCount })));
+    } catch (error) {
+      console.error(`Error fetching ${source.info.name} snapshots:`, error);
+      res.status(500).json({
+        message: `Failed to fetch snapshots of ${source.info.name}`,
+        error: error instanceof Error ? error.message : "Unknown error"
       });
+    }
+  });
 
-      if (!response.ok) {
-        throw new Error('Failed to fetch merchants');
-      }
+  // Merchants of a source as they were at a dated snapshot
+  app.get("/api/:source/snapshots/:id(\\d+)", async (req, res) => {
+    const source = getSource(req.params.source);
+    if (!source) {
+      return res.status(404).json({ message: `Unknown merchant source: ${req.params.source}` });
+    }
 
-      const data = await response.json();
-      res.json(data);
+    try {
+      const id = Number(req.params.id);
+      const snapshot = (await storage.listSourceSnapshots(source.info.id)).find(snapshot => snapshot.id === id);
+      const merchants = snapshot && await storage.getSnapshotMerchants(id);
+      if (!snapshot || !merchants) {
+        return res.status(404).json({ message: "Snapshot not found, it may be past the retention period" });
+      }
+      res.json({ id, syncedAt: snapshot.syncedAt, merchants });
     } catch (error) {
-      console.error('Bitcoin Jungle API error:', error);
+      console.error(`Error fetching ${source.info.name} snapshot:`, error);
       res.status(500).json({
-        message: "Failed to fetch merchants from Bitcoin Jungle",
+        message: `Failed to fetch snapshot of ${source.info.name}`,
         error: error instanceof Error ? error.message : "Unknown error"
       });
     }
@@ -353,7 +553,7 @@ Created at: ${new Date().toISOString()}
       `;
 
       const data = await request(
-        BITCOIN_JUNGLE_API,
+        getUpstreamUrl('bitcoinjungleGraphql'),
         query,
         {},
         {
@@ -373,5 +573,7 @@ Created at: ${new Date().toISOString()}
   });
 
   const httpServer = createServer(app);
+  // The mock upstreams stop with the app, e.g. at the end of a test run
+  if (mockUpstreams) httpServer.on('close', () => mockUpstreams.close());
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,52 @@
+import type { MerchantSource } from "./types";
+import { expectArray, fetchUpstream, isValidCoordinate, optional } from "./utils";
+import { getUpstreamUrl } from "../upstreams";
+
+export const bitcoinJungleSource: MerchantSource = {
+  info: {
+    id: 'bitcoinjungle',
+    name: 'Bitcoin Jungle',
+    color: '#75B5A2', // sage green
+    logoUrl: '/images/bitcoinjungle.png',
+    attribution: 'Bitcoin Jungle',
+    deduplicate: true,
+  },
+
+  ttl: 10 * 60 * 1000,
+
+  fetch(conditional, signal) {
+    return fetchUpstream(`${getUpstreamUrl('bitcoinjungle')}/api/list`, {
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      }
+    }, conditional, 'Bitcoin Jungle');
+  },
+
+  validate(payload) {
+    return expectArray(payload, 'Bitcoin Jungle', 'locations');
+  },
+
+  normalize(location) {
+    const coordinates = location?.coordinates;
+    if (location?.id === undefined || !isValidCoordinate(coordinates?.latitude, coordinates?.longitude)) {
+      return null;
+    }
+
+    const sourceId = String(location.id);
+    return {
+      id: `bitcoinjungle-${sourceId}`,
+      source: 'bitcoinjungle',
+      sourceId,
+      name: optional(location.name) || 'Unknown Merchant',
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude,
+      category: optional(location.categories?.map((cat: any) => cat.name).join(', ')),
+      paymentMethods: ['lightning'],
+      website: optional(location.website),
+      phone: optional(location.phone),
+      description: optional(location.description),
+    };
+  },
+};
@@ -0,0 +1,104 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { bitcoinPeopleSource } from "./bitcoinpeople";
+import { normalizePayload } from "../upstreamCache";
+import { UpstreamError } from "../upstreamClient";
+
+// GraphQL answer of a Galoy businessMapMarkers query, with records the
+// adapter has to skip
+const MARKERS = {
+  businessMapMarkers: [
+    {
+      username: "gelateriaroma",
+      mapInfo: { title: "Gelateria Roma", coordinates: { latitude: 41.9009, longitude: 12.4833 } },
+    },
+    {
+      username: "untitled",
+      mapInfo: { title: "  ", coordinates: { latitude: 45.4642, longitude: 9.19 } },
+    },
+    {
+      username: "nowhere",
+      mapInfo: { title: "Off the map", coordinates: { latitude: 123, longitude: 9.19 } },
+    },
+    {
+      mapInfo: { title: "No username", coordinates: { latitude: 45.07, longitude: 7.68 } },
+    },
+  ],
+};
+
+describe("Bitcoin People source", () => {
+  let server: Server;
+  let queries: string[] = [];
+  let status = 200;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => body += chunk);
+      req.on("end", () => {
+        queries.push(JSON.parse(body).query);
+        res.statusCode = status;
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(status === 200 ? { data: MARKERS } : { errors: [{ message: "Service unavailable" }] }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    process.env.BITCOIN_PEOPLE_API = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+  });
+
+  after(() => {
+    delete process.env.BITCOIN_PEOPLE_API;
+    server.close();
+  });
+
+  it("fetches and normalizes businessMapMarkers", async () => {
+    const result = await bitcoinPeopleSource.fetch({});
+    assert.ok(!result.notModified);
+    assert.match(queries[0], /businessMapMarkers/);
+
+    const merchants = normalizePayload(bitcoinPeopleSource, result.payload);
+    assert.deepEqual(merchants, [
+      {
+        id: "bitcoinpeople-gelateriaroma",
+        source: "bitcoinpeople",
+        sourceId: "gelateriaroma",
+        name: "Gelateria Roma",
+        latitude: 41.9009,
+        longitude: 12.4833,
+        paymentMethods: ["lightning"],
+        payUrl: "https://pay.bitcoinpeople.it/gelateriaroma",
+        username: "gelateriaroma",
+      },
+      {
+        id: "bitcoinpeople-untitled",
+        source: "bitcoinpeople",
+        sourceId: "untitled",
+        name: "untitled",
+        latitude: 45.4642,
+        longitude: 9.19,
+        paymentMethods: ["lightning"],
+        payUrl: "https://pay.bitcoinpeople.it/untitled",
+        username: "untitled",
+      },
+    ]);
+  });
+
+  it("reports upstream errors with their status", async () => {
+    status = 503;
+    try {
+      await assert.rejects(bitcoinPeopleSource.fetch({}), (error: unknown) => {
+        assert.ok(error instanceof UpstreamError);
+        assert.equal(error.status, 503);
+        return true;
+      });
+    } finally {
+      status = 200;
+    }
+  });
+
+  it("rejects a payload without businessMapMarkers", () => {
+    assert.throws(() => bitcoinPeopleSource.validate({ data: null }), /businessMapMarkers/);
+  });
+});
@@ -0,0 +1,14 @@
+import { createGaloySource } from "./galoy";
+
+export const bitcoinPeopleSource = createGaloySource({
+  info: {
+    id: 'bitcoinpeople',
+    name: 'Bitcoin People',
+    color: '#7C3AED', // violet
+    logoUrl: '/images/bitcoinpeople.png',
+    attribution: 'Bitcoin People',
+    deduplicate: true,
+  },
+  upstream: 'bitcoinpeople',
+  payUrl: 'https://pay.bitcoinpeople.it',
+});
@@ -0,0 +1,14 @@
+import { createGaloySource } from "./galoy";
+
+export const blinkSource = createGaloySource({
+  info: {
+    id: 'blink',
+    name: 'Blink',
+    color: '#FB5607', // orange
+    logoUrl: '/images/blink.png',
+    attribution: 'Blink',
+    deduplicate: true,
+  },
+  upstream: 'blink',
+  payUrl: 'https://pay.blink.sv',
+});
@@ -0,0 +1,135 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import type { Merchant } from "@shared/schema";
+import { btcmapSource } from "./btcmap";
+
+const BASE_TIME = Date.UTC(2024, 0, 1);
+
+function timestamp(seconds: number): string {
+  return new Date(BASE_TIME + seconds * 1000).toISOString();
+}
+
+function element(id: number, updatedAt: string, deleted = false) {
+  return {
+    id,
+    updated_at: updatedAt,
+    ...(deleted
+      ? { deleted_at: updatedAt }
+      : { osm_json: { lat: 13.49, lon: -89.44, tags: { name: `Merchant ${id}`, "payment:lightning": "yes" } } }),
+  };
+}
+
+function merchant(id: number): Merchant {
+  return {
+    id: `btcmap-${id}`,
+    source: "btcmap",
+    sourceId: String(id),
+    name: `Merchant ${id}`,
+    latitude: 13.49,
+    longitude: -89.44,
+    paymentMethods: ["lightning"],
+  };
+}
+
+async function sync(): Promise<{ notModified?: boolean; ids?: string[]; lastModified?: string }> {
+  const result = await btcmapSource.fetch({});
+  if (result.notModified) return { notModified: true };
+  const merchants = btcmapSource.validate(result.payload);
+  return { ids: merchants.map(m => m.sourceId).sort((a, b) => Number(a) - Number(b)), lastModified: result.lastModified };
+}
+
+// BTCMap's updated_since is inclusive, the element at the cursor is sent again
+describe("BTCMap source", () => {
+  let server: Server;
+  let elements: ReturnType<typeof element>[] = [];
+  let requests: { since: string; limit: number }[] = [];
+
+  before(async () => {
+    server = createServer((req, res) => {
+      const params = new URL(req.url!, "http://localhost").searchParams;
+      const since = params.get("updated_since")!;
+      const limit = Number(params.get("limit"));
+      requests.push({ since, limit });
+
+      const page = elements
+        .filter(e => e.updated_at >= since)
+        .sort((a, b) => a.updated_at.localeCompare(b.updated_at))
+        .slice(0, limit);
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(page));
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    process.env.BTCMAP_API = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    elements = [];
+    requests = [];
+  });
+
+  it("pages through the first sync by updated_at", async () => {
+    elements = Array.from({ length: 5002 }, (_, i) => element(i + 1, timestamp(i)));
+
+    const result = await sync();
+    assert.equal(result.ids?.length, 5002);
+    assert.equal(result.lastModified, timestamp(5001));
+    assert.deepEqual(requests, [
+      { since: "1970-01-01T00:00:00.000Z", limit: 5000 },
+      { since: timestamp(4999), limit: 5000 },
+    ]);
+  });
+
+  it("asks again with a bigger page when a full page shares one timestamp", async () => {
+    btcmapSource.restore!([], { lastModified: timestamp(0) });
+    elements = [
+      ...Array.from({ length: 6000 }, (_, i) => element(i + 1, timestamp(1))),
+      element(6001, timestamp(2)),
+    ];
+
+    const result = await sync();
+    assert.equal(result.ids?.length, 6001);
+    assert.equal(result.lastModified, timestamp(2));
+    assert.deepEqual(requests, [
+      { since: timestamp(0), limit: 5000 },
+      { since: timestamp(1), limit: 5000 },
+      { since: timestamp(1), limit: 10000 },
+    ]);
+  });
+
+  it("resumes from the restored cursor and drops deleted elements", async () => {
+    btcmapSource.restore!([merchant(1), merchant(2), merchant(3)], { lastModified: timestamp(10) });
+    elements = [
+      element(3, timestamp(10)),
+      element(2, timestamp(11), true),
+      element(4, timestamp(12)),
+    ];
+
+    const result = await sync();
+    assert.deepEqual(result.ids, ["1", "3", "4"]);
+    assert.equal(result.lastModified, timestamp(12));
+    assert.deepEqual(requests, [{ since: timestamp(10), limit: 5000 }]);
+  });
+
+  it("reports elements sent again at the cursor as not modified", async () => {
+    btcmapSource.restore!([merchant(1)], { lastModified: timestamp(10) });
+    elements = [element(1, timestamp(10))];
+
+    assert.deepEqual(await sync(), { notModified: true });
+  });
+
+  it("keeps its local copy when restored without a cursor", async () => {
+    btcmapSource.restore!([merchant(1)], { lastModified: timestamp(10) });
+    btcmapSource.restore!([merchant(2)], {});
+    elements = [element(3, timestamp(11))];
+
+    const result = await sync();
+    assert.deepEqual(result.ids, ["1", "3"]);
+    assert.deepEqual(requests, [{ since: timestamp(10), limit: 5000 }]);
+  });
+});
@@ -0,0 +1,170 @@
+import type { Merchant, PaymentMethod } from "@shared/schema";
+import type { MerchantSource } from "./types";
+import { expectArray, fetchUpstream, isValidCoordinate, optional } from "./utils";
+import { getUpstreamUrl } from "../upstreams";
+
+// Convert a BTCMap element (OSM node/way with tags) to the normalized shape
+function normalizeBtcMapElement(element: any): Merchant | null {
+  const osm = element?.osm_json;
+  if (!osm) return null;
+
+  const tags = osm.tags || {};
+  if (tags.deleted_at || element.deleted_at) return null;
+
+  // Ways and relations only carry bounds, use their center
+  let lat = osm.lat;
+  let lng = osm.lon;
+  if ((lat === undefined || lng === undefined) && osm.bounds) {
+    lat = (osm.bounds.minlat + osm.bounds.maxlat) / 2;
+    lng = (osm.bounds.minlon + osm.bounds.maxlon) / 2;
+  }
+  if (!isValidCoordinate(lat, lng)) return null;
+
+  const paymentMethods: PaymentMethod[] = [];
+  if (tags['payment:onchain'] === 'yes' || tags['payment:bitcoin'] === 'yes') {
+    paymentMethods.push('onchain');
+  }
+  if (tags['payment:lightning'] === 'yes') {
+    paymentMethods.push('lightning');
+  }
+  if (tags['payment:lightning_contactless'] === 'yes' || tags['payment:contactless'] === 'yes') {
+    paymentMethods.push('lightning_contactless');
+  }
+
+  const address = [
+    tags['addr:street'],
+    tags['addr:housenumber'],
+    tags['addr:city'],
+    tags['addr:country']
+  ].filter(Boolean).join(', ');
+
+  const sourceId = String(element.id);
+  return {
+    id: `btcmap-${sourceId}`,
+    source: 'btcmap',
+    sourceId,
+    name: optional(tags.name) || 'Unknown Merchant',
+    latitude: lat,
+    longitude: lng,
+    category: optional(tags.amenity || tags.shop || tags.tourism || tags.leisure),
+    address: optional(address),
+    country: optional(tags['addr:country']?.toUpperCase()),
+    paymentMethods,
+    website: optional(tags.website || tags['contact:website']),
+    phone: optional(tags.phone || tags['contact:phone']),
+    openingHours: optional(tags.opening_hours),
+    lastSurveyed: optional(tags['survey:date'] || tags['check_date']),
+  };
+}
+
+const PAGE_SIZE = 5000;
+// updated_since can't get past a full page of elements sharing one
+// timestamp, such a page is asked for again with a bigger limit up to this
+const MAX_PAGE_SIZE = 50000;
+const INITIAL_SYNC_DATE = '1970-01-01T00:00:00.000Z';
+
+// Local copy of active BTCMap merchants by element id, kept in sync with
+// updated_since and seeded from the stored data after a restart
+const merchants = new Map<string, Merchant>();
+let lastUpdatedAt = '';
+
+// Download every element changed since the given timestamp, including
+// deletions. Pages are ordered by updated_at, so each page continues from
+// the last timestamp of the previous one.
+async function fetchChangedElements(since: string, signal?: AbortSignal): Promise<any[]> {
+  const changes: any[] = [];
+  let cursor = since;
+  let limit = PAGE_SIZE;
+
+  while (true) {
+    const url = `${getUpstreamUrl('btcmap')}/v2/elements?updated_since=${encodeURIComponent(cursor)}&limit=${limit}`;
+    const result = await fetchUpstream(url, {
+      signal,
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'BTCMap-Frontend/1.0'
+      }
+    }, {}, 'BTCMap');
+    if (result.notModified) break;
+
+    const page = expectArray(result.payload, 'BTCMap');
+    changes.push(...page);
+    if (page.length < limit) break;
+
+    const nextCursor = page[page.length - 1]?.updated_at;
+    if (nextCursor && nextCursor !== cursor) {
+      cursor = nextCursor;
+      limit = PAGE_SIZE;
+    } else if (nextCursor && limit < MAX_PAGE_SIZE) {
+      limit = Math.min(limit * 2, MAX_PAGE_SIZE);
+    } else {
+      console.warn(`BTCMap paging stopped early at ${cursor}: a full page of ${page.length} elements didn't get past it, changes after it may be missing`);
+      break;
+    }
+  }
+
+  return changes;
+}
+
+export const btcmapSource: MerchantSource<Merchant> = {
+  info: {
+    id: 'btcmap',
+    name: 'BTCMap',
+    color: '#0891B2', // cyan
+    logoUrl: 'https://btcmap.org/images/logo.svg',
+    attribution: 'BTCMap / OpenStreetMap contributors',
+    deduplicate: false,
+  },
+
+  // Refreshes only transfer changed elements, so they can run often
+  ttl: 5 * 60 * 1000,
+
+  // The first sync pages through the whole dataset
+  upstream: { timeout: 2 * 60 * 1000 },
+
+  // The sync cursor travels as lastModified. Snapshots stored without one
+  // leave the local copy empty, so the next sync downloads everything.
+  restore(stored, { lastModified }) {
+    if (!lastModified) return;
+    merchants.clear();
+    for (const merchant of stored) {
+      merchants.set(merchant.sourceId, merchant);
+    }
+    lastUpdatedAt = lastModified;
+  },
+
+  async fetch(_conditional, signal) {
+    const previousUpdatedAt = lastUpdatedAt;
+    const changes = await fetchChangedElements(previousUpdatedAt || INITIAL_SYNC_DATE, signal);
+
+    for (const element of changes) {
+      // Deleted elements are kept out of the local copy entirely
+      const merchant = normalizeBtcMapElement(element);
+      if (merchant) {
+        merchants.set(merchant.sourceId, merchant);
+      } else {
+        merchants.delete(String(element.id));
+      }
+
+      if (element.updated_at && element.updated_at > lastUpdatedAt) {
+        lastUpdatedAt = element.updated_at;
+      }
+    }
+
+    console.log(`BTCMap sync: ${changes.length} changed elements, ${merchants.size} active`);
+
+    // updated_since may be inclusive, so re-sent elements don't count as changes
+    if (previousUpdatedAt && lastUpdatedAt === previousUpdatedAt) {
+      return { notModified: true };
+    }
+    return { payload: Array.from(merchants.values()), lastModified: lastUpdatedAt };
+  },
+
+  validate(payload) {
+    return expectArray(payload, 'BTCMap');
+  },
+
+  // Elements are normalized as they're synced, so stored merchants can seed
+  // the local copy
+  normalize: merchant => merchant,
+};
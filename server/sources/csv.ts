@@ -0,0 +1,73 @@
+// Minimal RFC 4180 CSV parser: quoted fields, escaped quotes ("") and
+// newlines inside quotes. The first row is used as the header.
+export function parseCsv(text: string, delimiter = ','): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter(r => r.some(value => value.trim() !== ''));
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return records.map(values => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = values[index]?.trim() ?? '';
+    });
+    return record;
+  });
+}
+
+// Text a spreadsheet would run as a formula (=, +, -, @, or a leading tab or
+// carriage return that some apps skip)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Serialize rows to CSV, quoting fields that contain the delimiter, quotes
+// or line breaks. Text cells that look like formulas get a leading ' so
+// spreadsheets show them as text, numbers are written as they are.
+export function formatCsv(rows: (string | number | undefined)[][], delimiter = ','): string {
+  return rows.map(row => row.map(value => {
+    let text = value === undefined ? '' : String(value);
+    if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+    return /["\r\n]/.test(text) || text.includes(delimiter)
+      ? `"${text.replace(/"/g, '""')}"`
+      : text;
+  }).join(delimiter)).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,227 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import * as turf from '@turf/turf';
+import { fromZodError } from "zod-validation-error";
+import type { Merchant, PaymentMethod } from "@shared/schema";
+import type { MerchantSource } from "./types";
+import { parseCsv } from "./csv";
+import { expectArray, fetchUpstream, isValidCoordinate, optional } from "./utils";
+
+const PAYMENT_METHODS: PaymentMethod[] = ["onchain", "lightning", "lightning_contactless"];
+
+// Property (GeoJSON) or column (CSV) names to read each merchant field from
+const fieldMappingSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  latitude: z.string(),
+  longitude: z.string(),
+  category: z.string(),
+  address: z.string(),
+  country: z.string(),
+  website: z.string(),
+  phone: z.string(),
+  openingHours: z.string(),
+  paymentMethods: z.string(),
+  description: z.string(),
+}).partial();
+
+const customFeedSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]+$/i, "Feed id may only contain letters, digits, '-' and '_'"),
+  name: z.string().min(1),
+  url: z.string().url().optional(),
+  path: z.string().optional(),
+  format: z.enum(["geojson", "csv"]).optional(),
+  delimiter: z.string().length(1).default(','),
+  color: z.string().default('#6B7280'),
+  logoUrl: z.string().optional(),
+  attribution: z.string().optional(),
+  deduplicate: z.boolean().default(true),
+  ttl: z.number().positive().default(3600), // Seconds between refreshes
+  // Applied when the feed has no payment methods field
+  paymentMethods: z.array(z.enum(["onchain", "lightning", "lightning_contactless"])).default([]),
+  fields: fieldMappingSchema.default({}),
+}).refine(feed => Boolean(feed.url) !== Boolean(feed.path), {
+  message: 'Specify exactly one of "url" or "path"',
+});
+
+export type CustomFeedConfig = z.infer<typeof customFeedSchema>;
+
+// Field names used when a feed doesn't map them explicitly
+const DEFAULT_FIELDS = {
+  id: ['id'],
+  name: ['name', 'title'],
+  latitude: ['lat', 'latitude'],
+  longitude: ['lon', 'lng', 'long', 'longitude'],
+  category: ['category', 'type'],
+  address: ['address'],
+  country: ['country', 'country_code'],
+  website: ['website', 'url'],
+  phone: ['phone'],
+  openingHours: ['opening_hours', 'openingHours'],
+  paymentMethods: ['payment_methods', 'paymentMethods'],
+  description: ['description'],
+};
+
+function readField(record: Record<string, any>, feed: CustomFeedConfig, field: keyof typeof DEFAULT_FIELDS): any {
+  const mapped = feed.fields[field];
+  if (mapped) return record[mapped];
+
+  for (const key of DEFAULT_FIELDS[field]) {
+    if (record[key] !== undefined && record[key] !== '') return record[key];
+  }
+  return undefined;
+}
+
+// Accepts arrays or "lightning;onchain" style lists
+function parsePaymentMethods(value: unknown, fallback: PaymentMethod[]): PaymentMethod[] {
+  if (value === undefined || value === null || value === '') return fallback;
+
+  const values = Array.isArray(value) ? value : String(value).split(/[,;|]/);
+  return values
+    .map(method => String(method).trim().toLowerCase())
+    .filter((method): method is PaymentMethod => PAYMENT_METHODS.includes(method as PaymentMethod));
+}
+
+function parseCoordinate(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return undefined;
+}
+
+function getFormat(feed: CustomFeedConfig): "geojson" | "csv" {
+  if (feed.format) return feed.format;
+  const location = feed.url ? new URL(feed.url).pathname : feed.path!;
+  return location.toLowerCase().endsWith('.csv') ? 'csv' : 'geojson';
+}
+
+export function createCustomFeedSource(feed: CustomFeedConfig): MerchantSource {
+  const format = getFormat(feed);
+
+  function toMerchant(record: Record<string, any>, lat: unknown, lng: unknown, fallbackId: string): Merchant | null {
+    if (!isValidCoordinate(lat, lng)) return null;
+
+    const sourceId = optional(readField(record, feed, 'id')) || fallbackId;
+    return {
+      id: `${feed.id}-${sourceId}`,
+      source: feed.id,
+      sourceId,
+      name: optional(readField(record, feed, 'name')) || 'Unknown Merchant',
+      latitude: lat as number,
+      longitude: lng as number,
+      category: optional(readField(record, feed, 'category')),
+      address: optional(readField(record, feed, 'address')),
+      country: optional(readField(record, feed, 'country')?.toString().toUpperCase()),
+      paymentMethods: parsePaymentMethods(readField(record, feed, 'paymentMethods'), feed.paymentMethods),
+      website: optional(readField(record, feed, 'website')),
+      phone: optional(readField(record, feed, 'phone')),
+      openingHours: optional(readField(record, feed, 'openingHours')),
+      description: optional(readField(record, feed, 'description')),
+    };
+  }
+
+  return {
+    info: {
+      id: feed.id,
+      name: feed.name,
+      color: feed.color,
+      logoUrl: feed.logoUrl,
+      attribution: feed.attribution || feed.name,
+      deduplicate: feed.deduplicate,
+    },
+
+    ttl: feed.ttl * 1000,
+
+    // Local files either exist or don't, retrying won't change that
+    upstream: feed.path ? { retries: 0 } : undefined,
+
+    async fetch(conditional, signal) {
+      if (feed.path) {
+        return { payload: await fs.promises.readFile(path.resolve(process.cwd(), feed.path), 'utf-8') };
+      }
+
+      return fetchUpstream(feed.url!, {
+        signal,
+        headers: {
+          'Accept': format === 'csv' ? 'text/csv' : 'application/geo+json, application/json',
+          'User-Agent': 'BitcoinMapEditor/1.0'
+        }
+      }, conditional, feed.name, 'text');
+    },
+
+    validate(payload) {
+      if (typeof payload !== 'string') {
+        throw new Error(`Unexpected ${feed.name} response: expected text`);
+      }
+
+      if (format === 'csv') {
+        return parseCsv(payload, feed.delimiter).map((row, index) => ({ row, index }));
+      }
+
+      const collection = JSON.parse(payload);
+      if (collection?.type !== 'FeatureCollection') {
+        throw new Error(`Unexpected ${feed.name} response: expected a GeoJSON FeatureCollection`);
+      }
+      return expectArray(collection, feed.name, 'features').map((feature, index) => ({ feature, index }));
+    },
+
+    normalize(record) {
+      if (format === 'csv') {
+        const { row, index } = record;
+        return toMerchant(
+          row,
+          parseCoordinate(readField(row, feed, 'latitude')),
+          parseCoordinate(readField(row, feed, 'longitude')),
+          String(index)
+        );
+      }
+
+      const { feature, index } = record;
+      if (!feature?.geometry) return null;
+
+      // Use the centroid for buildings and areas mapped as polygons
+      const [lng, lat] = feature.geometry.type === 'Point'
+        ? feature.geometry.coordinates
+        : turf.centroid(feature).geometry.coordinates;
+
+      return toMerchant(
+        { id: feature.id, ...feature.properties },
+        lat,
+        lng,
+        String(index)
+      );
+    },
+  };
+}
+
+// Feeds are configured as a JSON array in CUSTOM_FEEDS, or in the JSON file
+// CUSTOM_FEEDS_FILE points to. Invalid feeds are logged and skipped.
+export function loadCustomFeedConfigs(): CustomFeedConfig[] {
+  let raw: unknown = [];
+  try {
+    if (process.env.CUSTOM_FEEDS_FILE) {
+      raw = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), process.env.CUSTOM_FEEDS_FILE), 'utf-8'));
+    } else if (process.env.CUSTOM_FEEDS) {
+      raw = JSON.parse(process.env.CUSTOM_FEEDS);
+    }
+  } catch (error) {
+    console.error('Failed to read custom feed configuration:', error);
+    return [];
+  }
+
+  if (!Array.isArray(raw)) {
+    console.error('Custom feed configuration must be a JSON array');
+    return [];
+  }
+
+  const feeds: CustomFeedConfig[] = [];
+  for (const entry of raw) {
+    const result = customFeedSchema.safeParse(entry);
+    if (result.success) {
+      feeds.push(result.data);
+    } else {
+      console.error(`Skipping invalid custom feed ${entry?.id ?? ''}:`, fromZodError(result.error).message);
+    }
+  }
+  return feeds;
+}
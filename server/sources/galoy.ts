@@ -0,0 +1,84 @@
+import { ClientError, request, gql } from 'graphql-request';
+import type { SourceInfo } from "@shared/schema";
+import type { MerchantSource } from "./types";
+import { getUpstreamUrl, type UpstreamService } from "../upstreams";
+import { UpstreamError } from "../upstreamClient";
+import { expectArray, isValidCoordinate, optional } from "./utils";
+
+const BUSINESS_MAP_MARKERS_QUERY = gql`
+  query GetBusinessMapMarkers {
+    businessMapMarkers {
+      username
+      mapInfo {
+        coordinates {
+          latitude
+          longitude
+        }
+        title
+      }
+    }
+  }
+`;
+
+interface GaloySourceOptions {
+  info: SourceInfo;
+  upstream: UpstreamService; // GraphQL endpoint, see ../upstreams
+  payUrl: string;          // Base URL of the pay pages, the username is appended
+  ttl?: number;
+}
+
+// Adapter for wallets built on Galoy (Blink, Bitcoin People), which all expose
+// merchants through the businessMapMarkers GraphQL query
+export function createGaloySource({ info, upstream, payUrl, ttl = 5 * 60 * 1000 }: GaloySourceOptions): MerchantSource {
+  return {
+    info,
+
+    ttl,
+
+    // GraphQL POSTs can't be revalidated, the payload is always downloaded
+    async fetch(_conditional, signal) {
+      try {
+        const payload = await request({
+          url: getUpstreamUrl(upstream),
+          document: BUSINESS_MAP_MARKERS_QUERY,
+          requestHeaders: {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json'
+          },
+          signal,
+        });
+        return { payload };
+      } catch (error) {
+        // HTTP and GraphQL errors carry the status the retry policy looks at
+        if (error instanceof ClientError) {
+          const detail = error.response.errors?.[0]?.message ?? 'request failed';
+          throw new UpstreamError(`${info.name} API error: ${error.response.status} ${detail}`, error.response.status);
+        }
+        throw error;
+      }
+    },
+
+    validate(payload) {
+      return expectArray(payload, info.name, 'businessMapMarkers');
+    },
+
+    normalize(marker) {
+      const coordinates = marker?.mapInfo?.coordinates;
+      if (!marker?.username || !isValidCoordinate(coordinates?.latitude, coordinates?.longitude)) {
+        return null;
+      }
+
+      return {
+        id: `${info.id}-${marker.username}`,
+        source: info.id,
+        sourceId: marker.username,
+        name: optional(marker.mapInfo.title) || marker.username,
+        latitude: coordinates.latitude,
+        longitude: coordinates.longitude,
+        paymentMethods: ['lightning'],
+        payUrl: `${payUrl}/${marker.username}`,
+        username: marker.username,
+      };
+    },
+  };
+}
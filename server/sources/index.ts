@@ -0,0 +1,51 @@
+import type { MerchantSource } from "./types";
+import { btcmapSource } from "./btcmap";
+import { blinkSource } from "./blink";
+import { bitcoinJungleSource } from "./bitcoinjungle";
+import { bitcoinPeopleSource } from "./bitcoinpeople";
+import { createCustomFeedSource, loadCustomFeedConfigs } from "./customFeed";
+
+export type { MerchantSource } from "./types";
+
+// All known adapters, in marker priority order: smaller curated datasets
+// claim grid cells before BTCMap when the map limits visible markers
+const availableSources: MerchantSource[] = [
+  bitcoinJungleSource,
+  bitcoinPeopleSource,
+  blinkSource,
+  btcmapSource,
+];
+
+export function registerSource(source: MerchantSource) {
+  if (availableSources.some(existing => existing.info.id === source.info.id)) {
+    throw new Error(`Merchant source "${source.info.id}" is already registered`);
+  }
+  availableSources.push(source);
+}
+
+// Register the GeoJSON/CSV feeds configured by the operator, call once at startup
+export function registerCustomFeeds() {
+  for (const feed of loadCustomFeedConfigs()) {
+    try {
+      registerSource(createCustomFeedSource(feed));
+      console.log(`Registered custom merchant feed: ${feed.id}`);
+    } catch (error) {
+      console.error(`Failed to register custom feed ${feed.id}:`, error);
+    }
+  }
+}
+
+// MERCHANT_SOURCES=btcmap,blink restricts the enabled adapters, all are enabled by default
+export function getEnabledSources(): MerchantSource[] {
+  const configured = process.env.MERCHANT_SOURCES
+    ?.split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  if (!configured?.length) return availableSources;
+  return availableSources.filter(source => configured.includes(source.info.id));
+}
+
+export function getSource(id: string): MerchantSource | undefined {
+  return getEnabledSources().find(source => source.info.id === id);
+}
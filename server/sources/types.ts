@@ -0,0 +1,32 @@
+import type { Merchant, SourceInfo } from "@shared/schema";
+import type { UpstreamPolicy } from "../upstreamClient";
+
+// Validators of the previous response, sent as If-None-Match / If-Modified-Since
+export interface ConditionalRequest {
+  etag?: string;
+  lastModified?: string;
+}
+
+export type FetchResult =
+  | { notModified: true }
+  | { notModified?: false; payload: unknown; etag?: string; lastModified?: string };
+
+// Adapter for one upstream merchant data source. Adding a provider means
+// writing one of these and registering it in ./index.ts
+export interface MerchantSource<T = any> {
+  info: SourceInfo;
+  // How long fetched data is served before it's revalidated, in milliseconds
+  ttl: number;
+  // Timeout, retry and circuit breaker settings overriding the defaults
+  upstream?: Partial<UpstreamPolicy>;
+  // Download the raw upstream payload, honouring the validators when the
+  // upstream supports them. The signal aborts requests that time out.
+  fetch(conditional: ConditionalRequest, signal?: AbortSignal): Promise<FetchResult>;
+  // Check the payload shape and extract the list of records, throws if invalid
+  validate(payload: unknown): T[];
+  // Convert one record to the normalized shape, null skips the record
+  normalize(record: T): Merchant | null;
+  // Pick up incremental syncs from the stored merchants and validators of the
+  // last sync after a restart, instead of downloading everything again
+  restore?(merchants: Merchant[], conditional: ConditionalRequest): void;
+}
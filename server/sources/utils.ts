@@ -0,0 +1,53 @@
+import { UpstreamError } from "../upstreamClient";
+import type { ConditionalRequest, FetchResult } from "./types";
+
+// Skip empty strings so optional fields stay undefined
+export function optional(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  return text ? text : undefined;
+}
+
+export function isValidCoordinate(lat: unknown, lng: unknown): boolean {
+  return typeof lat === 'number' && typeof lng === 'number' &&
+    Number.isFinite(lat) && Number.isFinite(lng) &&
+    Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+// Return the array found at `key` of an upstream payload or fail loudly
+export function expectArray(payload: unknown, sourceName: string, key?: string): any[] {
+  const value = key ? (payload as any)?.[key] : payload;
+  if (!Array.isArray(value)) {
+    throw new Error(`Unexpected ${sourceName} response: expected ${key ? `"${key}" to be ` : ''}an array`);
+  }
+  return value;
+}
+
+// GET an upstream resource as a conditional request, resolving to
+// { notModified: true } when the upstream answers 304
+export async function fetchUpstream(
+  url: string,
+  init: RequestInit,
+  conditional: ConditionalRequest,
+  sourceName: string,
+  parse: 'json' | 'text' = 'json'
+): Promise<FetchResult> {
+  const headers = new Headers(init.headers);
+  if (conditional.etag) headers.set('If-None-Match', conditional.etag);
+  if (conditional.lastModified) headers.set('If-Modified-Since', conditional.lastModified);
+
+  const response = await fetch(url, { ...init, headers });
+  if (response.status === 304) {
+    return { notModified: true };
+  }
+
+  if (!response.ok) {
+    throw new UpstreamError(`${sourceName} API error: ${response.status} ${response.statusText}`, response.status);
+  }
+
+  return {
+    payload: parse === 'json' ? await response.json() : await response.text(),
+    etag: response.headers.get('ETag') ?? undefined,
+    lastModified: response.headers.get('Last-Modified') ?? undefined,
+  };
+}
@@ -0,0 +1,121 @@
+// [west, south, east, north] in degrees, the order used by GeoJSON and turf
+export type BBox = [number, number, number, number];
+
+// Length of a degree of latitude
+const METERS_PER_DEGREE = 111320;
+
+interface Located {
+  latitude: number;
+  longitude: number;
+}
+
+// Parse "west,south,east,north", wrapping longitudes panned past the antimeridian
+export function parseBBox(value: string): BBox | null {
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 4 || parts.some(part => !Number.isFinite(part))) return null;
+
+  let [west, south, east, north] = parts;
+  if (south > north || south < -90 || north > 90) return null;
+
+  if (east - west >= 360) {
+    west = -180;
+    east = 180;
+  } else {
+    west = wrapLongitude(west);
+    east = wrapLongitude(east);
+  }
+  return [west, south, east, north];
+}
+
+function wrapLongitude(lng: number): number {
+  const wrapped = ((lng + 180) % 360 + 360) % 360 - 180;
+  // Keep the eastern edge of the world at 180 instead of wrapping it to -180
+  return wrapped === -180 && lng > 0 ? 180 : wrapped;
+}
+
+// Square around a point, `meters` from the point to each edge
+export function bboxAround(lat: number, lng: number, meters: number): BBox {
+  const latDelta = meters / METERS_PER_DEGREE;
+  const lngDelta = meters / (METERS_PER_DEGREE * Math.max(Math.cos(lat * Math.PI / 180), 0.01));
+  const south = Math.max(lat - latDelta, -90);
+  const north = Math.min(lat + latDelta, 90);
+  if (lngDelta >= 180) return [-180, south, 180, north];
+  return [wrapLongitude(lng - lngDelta), south, wrapLongitude(lng + lngDelta), north];
+}
+
+// Split a bbox crossing the antimeridian into two that don't
+export function splitBBox(bbox: BBox): BBox[] {
+  const [west, south, east, north] = bbox;
+  if (west <= east) return [bbox];
+  return [[west, south, 180, north], [-180, south, east, north]];
+}
+
+export function bboxContains(bbox: BBox, lat: number, lng: number): boolean {
+  return splitBBox(bbox).some(([west, south, east, north]) =>
+    lat >= south && lat <= north && lng >= west && lng <= east
+  );
+}
+
+// Fixed grid of buckets over lat/lng, good enough for point lookups by
+// viewport without pulling in an R-tree
+export class SpatialIndex<T extends Located> {
+  private cells = new Map<string, T[]>();
+
+  constructor(items: T[], private cellSize = 0.5) {
+    for (const item of items) {
+      const key = this.cellKey(
+        Math.floor(item.latitude / cellSize),
+        Math.floor(item.longitude / cellSize)
+      );
+      let cell = this.cells.get(key);
+      if (!cell) {
+        cell = [];
+        this.cells.set(key, cell);
+      }
+      cell.push(item);
+    }
+  }
+
+  private cellKey(row: number, col: number): string {
+    return `${row},${col}`;
+  }
+
+  query(bbox: BBox): T[] {
+    const results: T[] = [];
+
+    for (const [west, south, east, north] of splitBBox(bbox)) {
+      const minRow = Math.floor(south / this.cellSize);
+      const maxRow = Math.floor(north / this.cellSize);
+      const minCol = Math.floor(west / this.cellSize);
+      const maxCol = Math.floor(east / this.cellSize);
+
+      // Scanning all cells is cheaper than visiting empty ones for huge boxes
+      if ((maxRow - minRow + 1) * (maxCol - minCol + 1) > this.cells.size) {
+        for (const cell of Array.from(this.cells.values())) {
+          for (const item of cell) {
+            if (item.latitude >= south && item.latitude <= north &&
+                item.longitude >= west && item.longitude <= east) {
+              results.push(item);
+            }
+          }
+        }
+        continue;
+      }
+
+      for (let row = minRow; row <= maxRow; row++) {
+        for (let col = minCol; col <= maxCol; col++) {
+          const cell = this.cells.get(this.cellKey(row, col));
+          if (!cell) continue;
+          for (const item of cell) {
+            if (item.latitude >= south && item.latitude <= north &&
+                item.longitude >= west && item.longitude <= east) {
+              results.push(item);
+            }
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Merchant } from "@shared/schema";
+import { MemStorage } from "./storage";
+
+function merchant(id: string, name: string): Merchant {
+  return { id, source: "btcmap", sourceId: id, name, latitude: 13.49, longitude: -89.38, paymentMethods: ["lightning"] };
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("dated snapshots", () => {
+  it("keeps the merchants of the last sync of each day", async () => {
+    const storage = new MemStorage();
+    const monday = Date.parse("2026-10-12T08:00:00Z");
+    await storage.saveSourceSnapshot({ source: "btcmap", syncedAt: new Date(monday) }, [merchant("1", "Cafe")]);
+    await storage.saveSourceSnapshot({ source: "btcmap", syncedAt: new Date(monday + 6 * 60 * 60 * 1000) }, [merchant("1", "Cafe Luna")]);
+    await storage.saveSourceSnapshot({ source: "btcmap", syncedAt: new Date(monday + DAY) }, [merchant("1", "Cafe Luna"), merchant("2", "Bakery")]);
+
+    const snapshots = await storage.listSourceSnapshots("btcmap");
+    assert.deepEqual(snapshots.map(snapshot => snapshot.syncedAt.toISOString()), [
+      "2026-10-13T08:00:00.000Z",
+      "2026-10-12T14:00:00.000Z",
+    ]);
+    assert.deepEqual((await storage.getSnapshotMerchants(snapshots[1].id))?.map(m => m.name), ["Cafe Luna"]);
+    assert.equal((await storage.getSnapshotMerchants(snapshots[0].id))?.length, 2);
+
+    const latest = await storage.getLatestSourceData("btcmap");
+    assert.equal(latest?.merchants.length, 2);
+  });
+
+  it("drops snapshots past the retention period", async () => {
+    process.env.SNAPSHOT_RETENTION_DAYS = "7";
+    try {
+      const storage = new MemStorage();
+      const start = Date.parse("2026-10-01T12:00:00Z");
+      await storage.saveSourceSnapshot({ source: "btcmap", syncedAt: new Date(start) }, [merchant("1", "Cafe")]);
+      await storage.saveSourceSnapshot({ source: "blink", syncedAt: new Date(start) }, [merchant("2", "Shop")]);
+      await storage.saveSourceSnapshot({ source: "btcmap", syncedAt: new Date(start + 10 * DAY) }, [merchant("1", "Cafe")]);
+
+      const snapshots = await storage.listSourceSnapshots("btcmap");
+      assert.deepEqual(snapshots.map(snapshot => snapshot.syncedAt.toISOString()), ["2026-10-11T12:00:00.000Z"]);
+      assert.equal(await storage.getSnapshotMerchants(1), undefined);
+      // Other sources keep theirs until they sync again
+      assert.equal((await storage.listSourceSnapshots("blink")).length, 1);
+    } finally {
+      delete process.env.SNAPSHOT_RETENTION_DAYS;
+    }
+  });
+});
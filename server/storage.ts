@@ -1,35 +1,299 @@
-import { merchants, type Merchant, type InsertMerchant } from "@shared/schema";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import type { Merchant, MerchantChange, MerchantMatch, SourceSnapshot, Submission, SubmissionStatus } from "@shared/schema";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+// A sync that changed a source's data
+export interface SourceSync {
+  source: string;
+  syncedAt: Date;
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface StoredSourceData {
+  snapshot: SourceSnapshot;
+  merchants: Merchant[];
+}
 
 export interface IStorage {
-  createMerchant(merchant: InsertMerchant): Promise<Merchant>;
-  getMerchant(id: number): Promise<Merchant | undefined>;
-  getMerchants(): Promise<Merchant[]>;
+  // Replace the stored merchants of a source and record the sync as a dated
+  // snapshot. Only the last snapshot of each day keeps its merchants, and
+  // snapshots older than the retention period are dropped.
+  saveSourceSnapshot(sync: SourceSync, merchants: Merchant[]): Promise<void>;
+  // Latest stored data of a source, served when its upstream is down
+  getLatestSourceData(source: string): Promise<StoredSourceData | undefined>;
+  // Snapshots of a source that kept their merchants, newest first
+  listSourceSnapshots(source: string): Promise<SourceSnapshot[]>;
+  // Merchants of a dated snapshot, undefined once they were dropped
+  getSnapshotMerchants(snapshotId: number): Promise<Merchant[] | undefined>;
+  saveMatches(matches: MerchantMatch[]): Promise<void>;
+  getMatches(): Promise<MerchantMatch[]>;
+  saveChanges(changes: MerchantChange[]): Promise<void>;
+  // Changes detected at or after `since`, oldest first
+  getChanges(since: Date): Promise<MerchantChange[]>;
+  // Insert or replace a submission
+  saveSubmission(submission: Submission): Promise<void>;
+  getSubmission(id: string): Promise<Submission | undefined>;
+  getSubmissionByIssue(issueNumber: number): Promise<Submission | undefined>;
+  getSubmissionsByStatus(statuses: SubmissionStatus[]): Promise<Submission[]>;
+}
+
+export type StorageKind = "memory" | "file" | "database";
+
+const DEFAULT_STORAGE_FILE = "data/storage.json";
+
+// Days dated snapshots are kept, SNAPSHOT_RETENTION_DAYS overrides it
+const DEFAULT_SNAPSHOT_RETENTION_DAYS = 30;
+
+// Oldest sync time still kept for a snapshot saved at `now`. Read lazily so
+// dotenv has run.
+export function getSnapshotRetentionStart(now: Date): Date {
+  const days = Number(process.env.SNAPSHOT_RETENTION_DAYS) || DEFAULT_SNAPSHOT_RETENTION_DAYS;
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
 }
 
-export class DatabaseStorage implements IStorage {
-  async createMerchant(merchant: InsertMerchant): Promise<Merchant> {
-    const [newMerchant] = await db
-      .insert(merchants)
-      .values({
-        ...merchant,
-        // Convert numbers to strings for database compatibility
-        latitude: merchant.latitude.toString(),
-        longitude: merchant.longitude.toString(),
-      })
-      .returning();
-    return newMerchant;
+// Snapshots are dated by UTC day
+export function startOfSnapshotDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Keeps everything in process memory, lost on restart
+export class MemStorage implements IStorage {
+  protected snapshots: SourceSnapshot[] = [];
+  protected merchantsBySource = new Map<string, Merchant[]>();
+  protected snapshotMerchants = new Map<number, Merchant[]>();
+  protected matches: MerchantMatch[] = [];
+  protected changes: MerchantChange[] = [];
+  protected submissions = new Map<string, Submission>();
+  protected nextSnapshotId = 1;
+
+  async saveSourceSnapshot(sync: SourceSync, merchants: Merchant[]): Promise<void> {
+    this.merchantsBySource.set(sync.source, merchants);
+
+    const dayStart = startOfSnapshotDay(sync.syncedAt);
+    const retentionStart = getSnapshotRetentionStart(sync.syncedAt);
+    this.snapshots = this.snapshots.filter(snapshot => {
+      if (snapshot.source !== sync.source) return true;
+      if (snapshot.syncedAt >= dayStart) this.snapshotMerchants.delete(snapshot.id);
+      if (snapshot.syncedAt >= retentionStart) return true;
+      this.snapshotMerchants.delete(snapshot.id);
+      return false;
+    });
+
+    const id = this.nextSnapshotId++;
+    this.snapshots.push({
+      id,
+      source: sync.source,
+      syncedAt: sync.syncedAt,
+      merchantCount: merchants.length,
+      etag: sync.etag ?? null,
+      lastModified: sync.lastModified ?? null,
+    });
+    this.snapshotMerchants.set(id, merchants);
+  }
+
+  async getLatestSourceData(source: string): Promise<StoredSourceData | undefined> {
+    const snapshot = this.snapshots
+      .filter(snapshot => snapshot.source === source)
+      .reduce<SourceSnapshot | undefined>((latest, snapshot) =>
+        !latest || snapshot.syncedAt >= latest.syncedAt ? snapshot : latest, undefined);
+    if (!snapshot) return undefined;
+
+    return { snapshot, merchants: this.merchantsBySource.get(source) ?? [] };
+  }
+
+  async listSourceSnapshots(source: string): Promise<SourceSnapshot[]> {
+    return this.snapshots
+      .filter(snapshot => snapshot.source === source && this.snapshotMerchants.has(snapshot.id))
+      .sort((a, b) => b.syncedAt.getTime() - a.syncedAt.getTime());
   }
 
-  async getMerchant(id: number): Promise<Merchant | undefined> {
-    const [merchant] = await db.select().from(merchants).where(eq(merchants.id, id));
-    return merchant;
+  async getSnapshotMerchants(snapshotId: number): Promise<Merchant[] | undefined> {
+    return this.snapshotMerchants.get(snapshotId);
   }
 
-  async getMerchants(): Promise<Merchant[]> {
-    return await db.select().from(merchants);
+  async saveMatches(matches: MerchantMatch[]): Promise<void> {
+    this.matches = matches;
+  }
+
+  async getMatches(): Promise<MerchantMatch[]> {
+    return this.matches;
+  }
+
+  async saveChanges(changes: MerchantChange[]): Promise<void> {
+    this.changes.push(...changes);
+  }
+
+  async getChanges(since: Date): Promise<MerchantChange[]> {
+    return this.changes.filter(change => new Date(change.detectedAt) >= since);
+  }
+
+  async saveSubmission(submission: Submission): Promise<void> {
+    this.submissions.set(submission.id, submission);
+  }
+
+  async getSubmission(id: string): Promise<Submission | undefined> {
+    return this.submissions.get(id);
+  }
+
+  async getSubmissionByIssue(issueNumber: number): Promise<Submission | undefined> {
+    return Array.from(this.submissions.values()).find(submission => submission.issueNumber === issueNumber);
+  }
+
+  async getSubmissionsByStatus(statuses: SubmissionStatus[]): Promise<Submission[]> {
+    return Array.from(this.submissions.values()).filter(submission => statuses.includes(submission.status));
   }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+interface StorageFile {
+  snapshots: (Omit<SourceSnapshot, 'syncedAt'> & { syncedAt: string })[];
+  merchants: Record<string, Merchant[]>;
+  matches: MerchantMatch[];
+  // Missing in files written by older versions
+  snapshotMerchants?: Record<string, Merchant[]>;
+  changes?: MerchantChange[];
+  submissions?: Submission[];
+}
+
+// In-memory storage mirrored to a JSON file, read once on first use and
+// rewritten after every change. Meant for small deployments without Postgres.
+export class FileStorage extends MemStorage {
+  private loaded: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readFile(this.filePath, 'utf8').then(
+        content => {
+          const data: StorageFile = JSON.parse(content);
+          this.snapshots = data.snapshots.map(snapshot => ({ ...snapshot, syncedAt: new Date(snapshot.syncedAt) }));
+          this.merchantsBySource = new Map(Object.entries(data.merchants));
+          this.snapshotMerchants = new Map(Object.entries(data.snapshotMerchants ?? {}).map(([id, merchants]) => [Number(id), merchants]));
+          this.matches = data.matches;
+          this.changes = data.changes ?? [];
+          this.submissions = new Map((data.submissions ?? []).map(submission => [submission.id, submission]));
+          this.nextSnapshotId = Math.max(0, ...this.snapshots.map(snapshot => snapshot.id)) + 1;
+        },
+        error => {
+          // A missing file is an empty store, anything else must not be overwritten
+          if (error.code !== 'ENOENT') throw error;
+        }
+      );
+    }
+    return this.loaded;
+  }
+
+  // Writes are queued so a slow write never lands after a newer one, and go
+  // through a temporary file so a crash can't leave a truncated store behind
+  private save(): Promise<void> {
+    const data: StorageFile = {
+      snapshots: this.snapshots.map(snapshot => ({ ...snapshot, syncedAt: snapshot.syncedAt.toISOString() })),
+      merchants: Object.fromEntries(Array.from(this.merchantsBySource)),
+      snapshotMerchants: Object.fromEntries(Array.from(this.snapshotMerchants)),
+      matches: this.matches,
+      changes: this.changes,
+      submissions: Array.from(this.submissions.values()),
+    };
+    const write = async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(data));
+      await rename(tempPath, this.filePath);
+    };
+
+    this.writing = this.writing.then(write, write);
+    return this.writing;
+  }
+
+  async saveSourceSnapshot(sync: SourceSync, merchants: Merchant[]): Promise<void> {
+    await this.load();
+    await super.saveSourceSnapshot(sync, merchants);
+    await this.save();
+  }
+
+  async getLatestSourceData(source: string): Promise<StoredSourceData | undefined> {
+    await this.load();
+    return super.getLatestSourceData(source);
+  }
+
+  async listSourceSnapshots(source: string): Promise<SourceSnapshot[]> {
+    await this.load();
+    return super.listSourceSnapshots(source);
+  }
+
+  async getSnapshotMerchants(snapshotId: number): Promise<Merchant[] | undefined> {
+    await this.load();
+    return super.getSnapshotMerchants(snapshotId);
+  }
+
+  async saveMatches(matches: MerchantMatch[]): Promise<void> {
+    await this.load();
+    await super.saveMatches(matches);
+    await this.save();
+  }
+
+  async getMatches(): Promise<MerchantMatch[]> {
+    await this.load();
+    return super.getMatches();
+  }
+
+  async saveChanges(changes: MerchantChange[]): Promise<void> {
+    await this.load();
+    await super.saveChanges(changes);
+    await this.save();
+  }
+
+  async getChanges(since: Date): Promise<MerchantChange[]> {
+    await this.load();
+    return super.getChanges(since);
+  }
+
+  async saveSubmission(submission: Submission): Promise<void> {
+    await this.load();
+    await super.saveSubmission(submission);
+    await this.save();
+  }
+
+  async getSubmission(id: string): Promise<Submission | undefined> {
+    await this.load();
+    return super.getSubmission(id);
+  }
+
+  async getSubmissionByIssue(issueNumber: number): Promise<Submission | undefined> {
+    await this.load();
+    return super.getSubmissionByIssue(issueNumber);
+  }
+
+  async getSubmissionsByStatus(statuses: SubmissionStatus[]): Promise<Submission[]> {
+    await this.load();
+    return super.getSubmissionsByStatus(statuses);
+  }
+}
+
+// STORAGE picks the implementation, defaulting to Postgres when DATABASE_URL
+// is set and memory otherwise. Read lazily so dotenv has run.
+export function getStorageKind(): StorageKind {
+  const kind = process.env.STORAGE || (process.env.DATABASE_URL ? 'database' : 'memory');
+  if (kind !== 'memory' && kind !== 'file' && kind !== 'database') {
+    throw new Error(`Unknown STORAGE "${kind}", expected memory, file or database`);
+  }
+  return kind;
+}
+
+// The database module is only imported when selected, it needs DATABASE_URL
+export async function createStorage(kind: StorageKind = getStorageKind()): Promise<IStorage> {
+  switch (kind) {
+    case 'memory':
+      return new MemStorage();
+    case 'file':
+      return new FileStorage(path.resolve(process.env.STORAGE_FILE || DEFAULT_STORAGE_FILE));
+    case 'database': {
+      const { DatabaseStorage } = await import("./databaseStorage");
+      return new DatabaseStorage();
+    }
+  }
+}
@@ -0,0 +1,406 @@
+import { randomUUID } from "crypto";
+import type { DuplicateCandidate, InsertMerchant, PublicSubmission, Submission, SubmissionComment, SubmissionEvent, SubmissionStatus } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { createIssue, getGitHubConfig, getWebhookSecret, listIssues, type GitHubComment, type GitHubConfig, type GitHubIssue } from "./github";
+import { resolveCountry } from "./countries";
+import { SPAM_THRESHOLD } from "./abuse";
+
+// How often stored submissions are checked for a due GitHub retry
+const RETRY_CHECK_INTERVAL = 60 * 1000;
+
+// Delay after the first failed attempt, doubled for each further failure
+const RETRY_DELAY = 60 * 1000;
+const MAX_RETRY_DELAY = 60 * 60 * 1000;
+
+// How often the state of filed issues is read back from GitHub
+const ISSUE_SYNC_INTERVAL = 10 * 60 * 1000;
+
+// Every issue filed from the map carries this label
+const SUBMISSION_LABEL = 'blink-submission';
+const FILED_LABELS = ['good first issue', 'help wanted', SUBMISSION_LABEL];
+
+// Labels volunteers use for suggestions that won't make it to the map
+const REJECTED_LABELS = ['duplicate', 'invalid', 'wontfix', 'rejected', 'spam'];
+
+// Statuses whose issue can still change
+const OPEN_STATUSES: SubmissionStatus[] = ['open', 'in_review'];
+
+// Comments by people with write access to the repository are shown to submitters
+const MODERATOR_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'];
+
+// Where volunteers can look at a known merchant, BTCMap ids are OSM elements
+function describeDuplicate(candidate: DuplicateCandidate): string {
+  const link = candidate.source === 'btcmap'
+    ? ` https://www.openstreetmap.org/${candidate.sourceId.replace(':', '/')}`
+    : '';
+  return `- ${candidate.name} (${candidate.source}, ${Math.round(candidate.distance)} m away, score ${candidate.score.toFixed(2)})${link}`;
+}
+
+// Issue body in the template the merchant onboarding volunteers work from
+export function formatIssueBody(submission: Submission): string {
+  const merchant = submission.merchant;
+  const duplicates = submission.possibleDuplicates?.length
+    ? `
+Possible duplicates (the submitter confirmed this is a different merchant):
+${submission.possibleDuplicates.map(describeDuplicate).join('\n')}
+`
+    : '';
+  return `
+Merchant name: ${merchant.name}
+Country: ${submission.country || ''}
+Communities:
+Address: ${merchant.address || ''}
+Lat: ${merchant.latitude}
+Long: ${merchant.longitude}
+OSM: https://www.openstreetmap.org/edit#map=21/${merchant.latitude}/${merchant.longitude}
+Category: ${merchant.type || ''}
+Payment methods: ${merchant.paymentMethods?.join(',') || ''}
+Website: ${merchant.website || ''}
+Phone: ${merchant.phone || ''}
+Opening hours: ${merchant.openingHours || ''}
+Twitter merchant: ${merchant.twitterMerchant || ''}
+Twitter submitter: ${merchant.twitterSubmitter || ''}
+Notes: ${merchant.notes || ''}
+Data Source: ${merchant.dataSource || 'User Submission'}
+Contact: ${merchant.contact || ''}
+Status: Todo
+Created at: ${submission.createdAt}
+${duplicates}`;
+}
+
+// The submitter's contact details, retry internals and spam score stay on
+// the server
+export function toPublicSubmission(submission: Submission): PublicSubmission {
+  const { merchant: { contact, ...merchant }, lastError, nextAttemptAt, spamScore, spamReasons, ...rest } = submission;
+  return { ...rest, merchant };
+}
+
+// Labels of an issue other than the ones it was filed with
+function addedLabels(issue: GitHubIssue, submission: Submission): string[] {
+  const filed = new Set([...FILED_LABELS, ...(submission.country ? [submission.country] : [])]);
+  return issue.labels.map(label => label.name).filter(name => !filed.has(name));
+}
+
+// Closed as completed (or without a reason, on issues closed before GitHub
+// had them) means the merchant was added. Closed as not planned or duplicate,
+// or with a rejection label, means it wasn't. Open issues with labels of their
+// own are being worked on.
+export function statusFromIssue(issue: GitHubIssue, labels: string[]): SubmissionStatus {
+  const rejected = labels.some(label => REJECTED_LABELS.includes(label.toLowerCase()));
+  if (issue.state === 'closed') {
+    const completed = issue.state_reason === 'completed' || !issue.state_reason;
+    return rejected || !completed ? 'rejected' : 'added';
+  }
+  return labels.length ? 'in_review' : 'open';
+}
+
+function toSubmissionComment(comment: GitHubComment): SubmissionComment {
+  return {
+    id: comment.id,
+    author: comment.user.login,
+    body: comment.body,
+    url: comment.html_url,
+    createdAt: comment.created_at,
+    updatedAt: comment.updated_at,
+  };
+}
+
+// Merchant suggestions are stored before anything else happens, then filed
+// as GitHub issues. Suggestions GitHub didn't accept stay pending and are
+// retried in the background with exponential backoff. Likely spam is held
+// back until a moderator looks at it.
+export class SubmissionService {
+  private storage: IStorage | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private syncTimer: NodeJS.Timeout | null = null;
+  private retrying = false;
+  private syncing = false;
+  private lastSyncAt: Date | null = null;
+  // Ids with a GitHub request in flight, so a retry never files one twice
+  private filing = new Set<string>();
+
+  persistTo(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  private getStorage(): IStorage {
+    if (!this.storage) {
+      throw new Error('No storage configured for submissions');
+    }
+    return this.storage;
+  }
+
+  // possibleDuplicates: known merchants the submitter was shown and chose
+  // to ignore, listed in the issue for the volunteers. Suggestions with a
+  // spam score of SPAM_THRESHOLD or more are held until a moderator
+  // approves them.
+  async submit(
+    merchant: InsertMerchant,
+    possibleDuplicates: DuplicateCandidate[] = [],
+    spam: { score: number; reasons: string[] } = { score: 0, reasons: [] }
+  ): Promise<Submission> {
+    const storage = this.getStorage();
+    const country = await resolveCountry(merchant.latitude, merchant.longitude);
+    const now = new Date().toISOString();
+    const held = spam.score >= SPAM_THRESHOLD;
+
+    const submission: Submission = {
+      id: randomUUID(),
+      merchant,
+      ...(country ? { country: country.name } : {}),
+      ...(country?.code ? { countryCode: country.code } : {}),
+      ...(possibleDuplicates.length ? { possibleDuplicates } : {}),
+      ...(spam.score ? { spamScore: spam.score, spamReasons: spam.reasons } : {}),
+      status: held ? 'held' : 'pending',
+      history: [{ status: held ? 'held' : 'pending', at: now }],
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await storage.saveSubmission(submission);
+
+    if (held) {
+      console.warn(`Holding submission ${submission.id} for moderation: ${spam.reasons.join(', ')}`);
+      return submission;
+    }
+    return this.fileIssue(submission);
+  }
+
+  async get(id: string): Promise<Submission | undefined> {
+    return this.getStorage().getSubmission(id);
+  }
+
+  // Submissions waiting for a moderator, oldest first
+  async listHeld(): Promise<Submission[]> {
+    const held = await this.getStorage().getSubmissionsByStatus(['held']);
+    return held.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // Release a held submission to be filed, or turn it down. Resolves to
+  // undefined when there's no held submission with this id.
+  async moderate(id: string, approve: boolean, note?: string): Promise<Submission | undefined> {
+    const submission = await this.getStorage().getSubmission(id);
+    if (!submission || submission.status !== 'held') return undefined;
+
+    const status: SubmissionStatus = approve ? 'pending' : 'rejected';
+    const at = new Date().toISOString();
+    const updated: Submission = {
+      ...submission,
+      status,
+      history: [...submission.history, { status, at, note: note || (approve ? 'Approved by a moderator' : 'Rejected by a moderator') }],
+      updatedAt: at,
+    };
+    await this.getStorage().saveSubmission(updated);
+    console.log(`Submission ${id} was ${approve ? 'approved' : 'rejected'} by a moderator`);
+
+    return approve ? this.fileIssue(updated) : updated;
+  }
+
+  // Create the GitHub issue of a pending submission and store the outcome
+  private async fileIssue(submission: Submission): Promise<Submission> {
+    const config = getGitHubConfig();
+    if (!config || this.filing.has(submission.id)) return submission;
+    this.filing.add(submission.id);
+
+    try {
+      // The caller's copy may be stale, e.g. a retry pass that read the
+      // pending list before submit() filed one of them
+      const current = await this.getStorage().getSubmission(submission.id);
+      if (!current || current.status !== 'pending') return current ?? submission;
+
+      const updated = await this.createIssueFor(config, current);
+      await this.getStorage().saveSubmission(updated);
+      return updated;
+    } finally {
+      this.filing.delete(submission.id);
+    }
+  }
+
+  // The submission after one filing attempt, open on success and pending
+  // with the next retry scheduled on failure
+  private async createIssueFor(config: GitHubConfig, submission: Submission): Promise<Submission> {
+    const attempts = submission.attempts + 1;
+    try {
+      const issue = await createIssue(config, {
+        title: submission.merchant.name,
+        body: formatIssueBody(submission),
+        labels: [
+          ...(submission.country ? [submission.country] : []),
+          'good first issue',
+          'help wanted',
+          { name: SUBMISSION_LABEL, description: 'Submitted from Blink Map' }
+        ]
+      });
+
+      const { lastError, nextAttemptAt, ...rest } = submission;
+      const now = new Date().toISOString();
+      console.log(`Filed submission ${submission.id} as GitHub issue #${issue.number}`);
+      return {
+        ...rest,
+        status: 'open',
+        history: [...submission.history, { status: 'open', at: now, note: `Filed as issue #${issue.number}` }],
+        issueNumber: issue.number,
+        issueUrl: issue.html_url,
+        attempts,
+        updatedAt: now,
+      };
+    } catch (error) {
+      const delay = Math.min(RETRY_DELAY * Math.pow(2, attempts - 1), MAX_RETRY_DELAY);
+      const lastError = error instanceof Error ? error.message : String(error);
+      console.error(`Filing submission ${submission.id} failed, retrying in ${delay / 1000}s:`, lastError);
+      return {
+        ...submission,
+        attempts,
+        lastError,
+        nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+    }
+  }
+
+  // File every pending submission whose retry is due, one at a time
+  async retryPending() {
+    if (this.retrying) return;
+    this.retrying = true;
+
+    try {
+      const pending = await this.getStorage().getSubmissionsByStatus(['pending']);
+      const now = Date.now();
+      for (const submission of pending) {
+        if (submission.nextAttemptAt && Date.parse(submission.nextAttemptAt) > now) continue;
+        await this.fileIssue(submission);
+      }
+    } finally {
+      this.retrying = false;
+    }
+  }
+
+  // Bring a filed submission up to date with its issue, recording a history
+  // event when the status changes
+  async applyIssue(submission: Submission, issue: GitHubIssue): Promise<Submission> {
+    const labels = addedLabels(issue, submission);
+    const status = statusFromIssue(issue, labels);
+    const labelsChanged = labels.join() !== (submission.labels ?? []).join();
+    if (status === submission.status && !labelsChanged) return submission;
+
+    const at = new Date().toISOString();
+    const history = [...submission.history];
+    if (status !== submission.status) {
+      const event: SubmissionEvent = { status, at: issue.closed_at && issue.state === 'closed' ? issue.closed_at : at };
+      if (labels.length && (status === 'in_review' || status === 'rejected')) {
+        event.note = `Labelled ${labels.join(', ')}`;
+      }
+      history.push(event);
+    }
+
+    const updated: Submission = { ...submission, status, history, labels, updatedAt: at };
+    await this.getStorage().saveSubmission(updated);
+    if (status !== submission.status) {
+      console.log(`Submission ${submission.id} is now ${status} (issue #${issue.number})`);
+    }
+    return updated;
+  }
+
+  // Add, update or remove a moderator comment after an issue_comment event
+  async applyComment(submission: Submission, action: string, comment: GitHubComment): Promise<Submission> {
+    if (!MODERATOR_ASSOCIATIONS.includes(comment.author_association)) return submission;
+
+    const others = (submission.comments ?? []).filter(existing => existing.id !== comment.id);
+    const comments = action === 'deleted'
+      ? others
+      : [...others, toSubmissionComment(comment)].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const updated: Submission = { ...submission, comments, updatedAt: new Date().toISOString() };
+    await this.getStorage().saveSubmission(updated);
+    return updated;
+  }
+
+  // Handle an issues or issue_comment webhook delivery. Resolves to the
+  // updated submission, or undefined when the event isn't about one.
+  async handleWebhook(event: 'issues' | 'issue_comment', payload: any): Promise<Submission | undefined> {
+    const config = getGitHubConfig();
+    const repo = payload?.repository?.full_name;
+    if (!config || typeof repo !== 'string' || repo.toLowerCase() !== config.repo.toLowerCase()) {
+      return undefined;
+    }
+
+    // Comments on pull requests arrive as issue_comment events too
+    const issue: GitHubIssue | undefined = payload.issue;
+    if (!issue || payload.issue.pull_request) return undefined;
+
+    const submission = await this.getStorage().getSubmissionByIssue(issue.number);
+    if (!submission) return undefined;
+
+    // Both events carry the current state of the issue
+    const updated = await this.applyIssue(submission, issue);
+    if (event === 'issue_comment' && payload.comment) {
+      return this.applyComment(updated, payload.action, payload.comment);
+    }
+    return updated;
+  }
+
+  // Read back issues updated since the last sync. The first sync after a
+  // start covers everything since the oldest open submission was created.
+  async syncIssues() {
+    const config = getGitHubConfig();
+    if (!config || this.syncing) return;
+    this.syncing = true;
+
+    try {
+      const open = await this.getStorage().getSubmissionsByStatus(OPEN_STATUSES);
+      if (!open.length) return;
+
+      const startedAt = new Date();
+      const since = this.lastSyncAt ?? new Date(Math.min(...open.map(submission => Date.parse(submission.createdAt))));
+      const byIssue = new Map(open.map(submission => [submission.issueNumber, submission]));
+
+      for (const issue of await listIssues(config, SUBMISSION_LABEL, since)) {
+        const submission = byIssue.get(issue.number);
+        if (submission) await this.applyIssue(submission, issue);
+      }
+      this.lastSyncAt = startedAt;
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  // Retry pending submissions and keep filed ones in sync with GitHub. With
+  // a webhook configured, GitHub is only polled once to catch up on events
+  // missed while the server was down.
+  startBackgroundTasks() {
+    if (this.retryTimer) return;
+
+    const retry = () => {
+      this.retryPending().catch(error => {
+        console.error('Retrying pending submissions failed:', error);
+      });
+    };
+    const sync = () => {
+      this.syncIssues().catch(error => {
+        console.error('Syncing submission issues failed:', error);
+      });
+    };
+
+    retry();
+    sync();
+    this.retryTimer = setInterval(retry, RETRY_CHECK_INTERVAL);
+    this.retryTimer.unref();
+    if (!getWebhookSecret()) {
+      this.syncTimer = setInterval(sync, ISSUE_SYNC_INTERVAL);
+      this.syncTimer.unref();
+    }
+  }
+
+  stopBackgroundTasks() {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+}
+
+export const submissions = new SubmissionService();
@@ -0,0 +1,245 @@
+import type { Merchant, SourceHealth } from "@shared/schema";
+import type { MerchantSource } from "./sources";
+import { upstreamClient } from "./upstreamClient";
+import type { IStorage } from "./storage";
+
+// How often the background refresher looks for sources past their TTL
+const REFRESH_CHECK_INTERVAL = 60 * 1000;
+
+interface CacheEntry {
+  merchants: Merchant[];
+  fetchedAt: number;       // Last time the upstream confirmed the data (200 or 304)
+  etag?: string;
+  lastModified?: string;
+}
+
+interface FetchStats {
+  lastSuccessAt?: number;
+  lastErrorAt?: number;
+  lastError?: string;
+  latencyMs?: number;
+}
+
+// Receives the new data of a source and the data it replaces, if any
+type RefreshListener = (source: MerchantSource, merchants: Merchant[], previous?: Merchant[]) => void;
+
+// Validate an upstream payload and normalize its records
+export function normalizePayload(source: MerchantSource, payload: unknown): Merchant[] {
+  const records = source.validate(payload);
+
+  const merchants: Merchant[] = [];
+  for (const record of records) {
+    const merchant = source.normalize(record);
+    if (merchant) merchants.push(merchant);
+  }
+  return merchants;
+}
+
+// Server-side cache in front of the upstream merchant APIs. Requests are
+// answered from memory; data older than the source TTL is still served while
+// a single revalidation runs in the background (stale-while-revalidate).
+export class UpstreamCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, Promise<Merchant[]>>();
+  private stats = new Map<string, FetchStats>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private listeners: RefreshListener[] = [];
+  private storage: IStorage | null = null;
+
+  isStale(source: MerchantSource): boolean {
+    const entry = this.entries.get(source.info.id);
+    return !entry || Date.now() - entry.fetchedAt > source.ttl;
+  }
+
+  // Persist every sync that changes a source's data
+  persistTo(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  // Start from the stored data of each source. Entries keep the time of the
+  // stored sync, so they are revalidated right away but served meanwhile.
+  async restore(sources: MerchantSource[]) {
+    if (!this.storage) return;
+
+    for (const source of sources) {
+      try {
+        const stored = await this.storage.getLatestSourceData(source.info.id);
+        if (!stored || this.entries.has(source.info.id)) continue;
+
+        const entry: CacheEntry = {
+          merchants: stored.merchants,
+          fetchedAt: stored.snapshot.syncedAt.getTime(),
+          etag: stored.snapshot.etag ?? undefined,
+          lastModified: stored.snapshot.lastModified ?? undefined,
+        };
+        this.entries.set(source.info.id, entry);
+        source.restore?.(stored.merchants, { etag: entry.etag, lastModified: entry.lastModified });
+        console.log(`Restored ${source.info.name}: ${stored.merchants.length} merchants from ${stored.snapshot.syncedAt.toISOString()}`);
+      } catch (error) {
+        console.error(`Failed to restore ${source.info.name} from storage:`, error);
+      }
+    }
+  }
+
+  // Cached merchants without triggering a fetch, undefined until the first load
+  peek(source: MerchantSource): Merchant[] | undefined {
+    return this.entries.get(source.info.id)?.merchants;
+  }
+
+  // Called whenever a source hands out new data (not on 304s)
+  onRefresh(listener: RefreshListener) {
+    this.listeners.push(listener);
+  }
+
+  async getMerchants(source: MerchantSource): Promise<Merchant[]> {
+    const entry = this.entries.get(source.info.id);
+
+    // Nothing cached yet, the first caller has to wait for the upstream
+    if (!entry) {
+      return this.refresh(source);
+    }
+
+    if (this.isStale(source)) {
+      this.refresh(source).catch(error => {
+        console.error(`Background refresh of ${source.info.name} failed:`, error);
+      });
+    }
+
+    return entry.merchants;
+  }
+
+  // Revalidate a source with the upstream, concurrent calls share one request
+  refresh(source: MerchantSource): Promise<Merchant[]> {
+    const id = source.info.id;
+    const pending = this.inflight.get(id);
+    if (pending) return pending;
+
+    const startedAt = Date.now();
+    const stats = this.stats.get(id) || {};
+    this.stats.set(id, stats);
+
+    const promise = this.fetchSource(source)
+      .then(merchants => {
+        stats.lastSuccessAt = Date.now();
+        stats.latencyMs = stats.lastSuccessAt - startedAt;
+        return merchants;
+      }, error => {
+        stats.lastErrorAt = Date.now();
+        stats.latencyMs = stats.lastErrorAt - startedAt;
+        stats.lastError = error instanceof Error ? error.message : String(error);
+
+        // Keep serving the last good snapshot while the upstream is down
+        const previous = this.entries.get(id);
+        if (previous) {
+          console.error(`Refresh of ${source.info.name} failed, serving last good data:`, stats.lastError);
+          return previous.merchants;
+        }
+        throw error;
+      })
+      .finally(() => {
+        this.inflight.delete(id);
+      });
+    this.inflight.set(id, promise);
+    return promise;
+  }
+
+  getHealth(source: MerchantSource): SourceHealth {
+    const entry = this.entries.get(source.info.id);
+    const stats = this.stats.get(source.info.id) || {};
+    const stale = this.isStale(source);
+    const failing = stats.lastErrorAt !== undefined && stats.lastErrorAt > (stats.lastSuccessAt ?? 0);
+
+    return {
+      id: source.info.id,
+      name: source.info.name,
+      status: !entry ? 'unavailable' : stale || failing ? 'stale' : 'ok',
+      count: entry?.merchants.length ?? 0,
+      stale,
+      lastSuccessAt: stats.lastSuccessAt ? new Date(stats.lastSuccessAt).toISOString() : undefined,
+      lastErrorAt: stats.lastErrorAt ? new Date(stats.lastErrorAt).toISOString() : undefined,
+      lastError: stats.lastError,
+      latencyMs: stats.latencyMs,
+      circuit: upstreamClient.getCircuitState(source.info.id),
+    };
+  }
+
+  private async fetchSource(source: MerchantSource): Promise<Merchant[]> {
+    const id = source.info.id;
+    const previous = this.entries.get(id);
+    const result = await upstreamClient.call(
+      id,
+      signal => source.fetch({
+        etag: previous?.etag,
+        lastModified: previous?.lastModified,
+      }, signal),
+      source.upstream
+    );
+
+    if (result.notModified && previous) {
+      previous.fetchedAt = Date.now();
+      console.log(`${source.info.name} data not modified`);
+      return previous.merchants;
+    }
+
+    if (result.notModified) {
+      throw new Error(`${source.info.name} answered 304 without cached data`);
+    }
+
+    const merchants = normalizePayload(source, result.payload);
+    const fetchedAt = Date.now();
+    this.entries.set(id, {
+      merchants,
+      fetchedAt,
+      etag: result.etag,
+      lastModified: result.lastModified,
+    });
+
+    // Writing can take a while for large sources, don't hold up the response
+    this.storage?.saveSourceSnapshot({
+      source: id,
+      syncedAt: new Date(fetchedAt),
+      etag: result.etag,
+      lastModified: result.lastModified,
+    }, merchants).catch(error => {
+      console.error(`Failed to persist ${source.info.name} data:`, error);
+    });
+    console.log(`Refreshed ${source.info.name}: ${merchants.length} merchants`);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(source, merchants, previous?.merchants);
+      } catch (error) {
+        console.error(`Refresh listener for ${source.info.name} failed:`, error);
+      }
+    }
+    return merchants;
+  }
+
+  // Warm the cache and keep every source fresh regardless of traffic
+  startBackgroundRefresh(getSources: () => MerchantSource[]) {
+    if (this.refreshTimer) return;
+
+    const refreshStale = () => {
+      for (const source of getSources()) {
+        if (this.isStale(source)) {
+          this.refresh(source).catch(error => {
+            console.error(`Background refresh of ${source.info.name} failed:`, error);
+          });
+        }
+      }
+    };
+
+    refreshStale();
+    this.refreshTimer = setInterval(refreshStale, REFRESH_CHECK_INTERVAL);
+    this.refreshTimer.unref();
+  }
+
+  stopBackgroundRefresh() {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+}
+
+export const upstreamCache = new UpstreamCache();
@@ -0,0 +1,125 @@
+import { after, afterEach, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { CircuitOpenError, UpstreamClient, UpstreamError } from "./upstreamClient";
+
+const POLICY = { retries: 0, backoff: 0, failureThreshold: 2, cooldown: 60_000 };
+
+describe("UpstreamClient", () => {
+  let server: Server;
+  let url: string;
+  let requests = 0;
+  let status = 200;
+
+  before(async () => {
+    server = createServer((_req, res) => {
+      requests++;
+      res.statusCode = status;
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    requests = 0;
+    status = 200;
+    mock.restoreAll();
+  });
+
+  // A request to the fixture server, failing as the source adapters do
+  function request(signal: AbortSignal): Promise<number> {
+    return fetch(url, { signal }).then(response => {
+      if (!response.ok) throw new UpstreamError(`Answered ${response.status}`, response.status);
+      return response.status;
+    });
+  }
+
+  it("retries server errors and passes on the last one", async () => {
+    const client = new UpstreamClient();
+    status = 503;
+    await assert.rejects(client.call("test", request, { ...POLICY, retries: 2 }), { status: 503 });
+    assert.equal(requests, 3);
+  });
+
+  it("opens the circuit after repeated failures and closes it after a good trial call", async () => {
+    let now = Date.now();
+    mock.method(Date, "now", () => now);
+    const client = new UpstreamClient();
+
+    status = 500;
+    await assert.rejects(client.call("test", request, POLICY), UpstreamError);
+    assert.equal(client.getCircuitState("test"), "closed");
+    await assert.rejects(client.call("test", request, POLICY), UpstreamError);
+    assert.equal(client.getCircuitState("test"), "open");
+
+    // Open circuits skip the upstream, other circuits are unaffected
+    await assert.rejects(client.call("test", request, POLICY), CircuitOpenError);
+    assert.equal(requests, 2);
+    assert.equal(client.getCircuitState("other"), "closed");
+
+    now += POLICY.cooldown;
+    assert.equal(client.getCircuitState("test"), "half-open");
+    status = 200;
+    assert.equal(await client.call("test", request, POLICY), 200);
+    assert.equal(client.getCircuitState("test"), "closed");
+  });
+
+  it("opens the circuit again when the trial call fails", async () => {
+    let now = Date.now();
+    mock.method(Date, "now", () => now);
+    const client = new UpstreamClient();
+
+    status = 502;
+    await assert.rejects(client.call("test", request, POLICY));
+    await assert.rejects(client.call("test", request, POLICY));
+    now += POLICY.cooldown;
+    assert.equal(client.getCircuitState("test"), "half-open");
+
+    await assert.rejects(client.call("test", request, POLICY), UpstreamError);
+    assert.equal(client.getCircuitState("test"), "open");
+    assert.equal(requests, 3);
+  });
+
+  it("lets a single trial call through while half-open", async () => {
+    let now = Date.now();
+    mock.method(Date, "now", () => now);
+    const client = new UpstreamClient();
+
+    status = 500;
+    await assert.rejects(client.call("test", request, POLICY));
+    await assert.rejects(client.call("test", request, POLICY));
+    now += POLICY.cooldown;
+
+    status = 200;
+    const trial = client.call("test", request, POLICY);
+    await assert.rejects(client.call("test", request, POLICY), CircuitOpenError);
+    assert.equal(await trial, 200);
+    assert.equal(client.getCircuitState("test"), "closed");
+  });
+
+  it("doesn't retry or count client errors", async () => {
+    const client = new UpstreamClient();
+
+    status = 422;
+    for (let i = 0; i < POLICY.failureThreshold + 1; i++) {
+      await assert.rejects(client.call("test", request, { ...POLICY, retries: 2 }), { status: 422 });
+    }
+    assert.equal(requests, POLICY.failureThreshold + 1);
+    assert.equal(client.getCircuitState("test"), "closed");
+  });
+
+  it("counts rate limiting as a failure", async () => {
+    const client = new UpstreamClient();
+
+    status = 429;
+    await assert.rejects(client.call("test", request, POLICY));
+    await assert.rejects(client.call("test", request, POLICY));
+    assert.equal(client.getCircuitState("test"), "open");
+  });
+});
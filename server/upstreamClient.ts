@@ -0,0 +1,143 @@
+// Limits applied to every call to one upstream provider
+export interface UpstreamPolicy {
+  timeout: number;          // Per attempt, in milliseconds
+  retries: number;          // Extra attempts after the first one fails
+  backoff: number;          // Delay before the first retry, doubled for each further retry
+  failureThreshold: number; // Consecutive failed calls that open the circuit
+  cooldown: number;         // How long an open circuit rejects calls, in milliseconds
+}
+
+export const DEFAULT_UPSTREAM_POLICY: UpstreamPolicy = {
+  timeout: 15 * 1000,
+  retries: 2,
+  backoff: 1000,
+  failureThreshold: 3,
+  cooldown: 5 * 60 * 1000,
+};
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+// HTTP failure of an upstream, the status decides whether a retry can help
+export class UpstreamError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(name: string, public retryAt: number) {
+    super(`${name} is unavailable, skipping requests until ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Server errors, rate limiting, timeouts and network errors. Other client
+// errors won't go away by asking again and say nothing about the upstream's
+// health, e.g. GitHub refusing an issue with 422.
+function isUpstreamFailure(error: unknown): boolean {
+  if (!(error instanceof UpstreamError) || error.status === undefined) return true;
+  return error.status >= 500 || error.status === 429;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+interface Circuit {
+  failures: number;
+  openUntil: number;
+  trialInFlight: boolean;
+}
+
+// Shared wrapper around upstream requests: a timeout per attempt, retries
+// with exponential backoff, and a circuit breaker per provider so a provider
+// that keeps failing is skipped for a cooldown instead of stalling requests
+export class UpstreamClient {
+  private circuits = new Map<string, Circuit>();
+
+  private getCircuit(name: string): Circuit {
+    let circuit = this.circuits.get(name);
+    if (!circuit) {
+      circuit = { failures: 0, openUntil: 0, trialInFlight: false };
+      this.circuits.set(name, circuit);
+    }
+    return circuit;
+  }
+
+  getCircuitState(name: string): CircuitState {
+    const circuit = this.circuits.get(name);
+    if (!circuit || circuit.openUntil === 0) return 'closed';
+    return Date.now() < circuit.openUntil ? 'open' : 'half-open';
+  }
+
+  // Run `request` under the policy. It receives an AbortSignal that fires
+  // when the attempt times out and must pass it on to fetch.
+  async call<T>(
+    name: string,
+    request: (signal: AbortSignal) => Promise<T>,
+    overrides: Partial<UpstreamPolicy> = {}
+  ): Promise<T> {
+    const policy = { ...DEFAULT_UPSTREAM_POLICY, ...overrides };
+    const circuit = this.getCircuit(name);
+
+    const state = this.getCircuitState(name);
+    if (state === 'open' || (state === 'half-open' && circuit.trialInFlight)) {
+      throw new CircuitOpenError(name, circuit.openUntil);
+    }
+    // After the cooldown a single trial call decides whether to close the circuit
+    if (state === 'half-open') circuit.trialInFlight = true;
+
+    try {
+      const result = await this.attempt(name, request, policy);
+      circuit.failures = 0;
+      circuit.openUntil = 0;
+      return result;
+    } catch (error) {
+      // The upstream answered, it was the request that failed
+      if (!isUpstreamFailure(error)) {
+        circuit.failures = 0;
+        circuit.openUntil = 0;
+        throw error;
+      }
+
+      circuit.failures++;
+      if (state === 'half-open' || circuit.failures >= policy.failureThreshold) {
+        circuit.openUntil = Date.now() + policy.cooldown;
+        console.warn(`${name} failed ${circuit.failures} times, pausing requests for ${policy.cooldown / 1000}s`);
+      }
+      throw error;
+    } finally {
+      if (state === 'half-open') circuit.trialInFlight = false;
+    }
+  }
+
+  private async attempt<T>(
+    name: string,
+    request: (signal: AbortSignal) => Promise<T>,
+    policy: UpstreamPolicy
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), policy.timeout);
+
+      try {
+        return await request(controller.signal);
+      } catch (error) {
+        const failure = controller.signal.aborted
+          ? new UpstreamError(`${name} timed out after ${policy.timeout}ms`)
+          : error;
+
+        if (attempt >= policy.retries || !isUpstreamFailure(failure)) throw failure;
+
+        const delay = policy.backoff * Math.pow(2, attempt);
+        console.warn(`${name} request failed (${failure instanceof Error ? failure.message : failure}), retrying in ${delay}ms`);
+        await sleep(delay);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+}
+
+export const upstreamClient = new UpstreamClient();
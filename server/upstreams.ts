@@ -0,0 +1,33 @@
+// Base URLs of the external services the server talks to. Each can be
+// overridden with its environment variable, and MOCK_UPSTREAMS=true points
+// all of them at the bundled mock server (see ./mock) for offline work.
+const UPSTREAMS = {
+  btcmap: { env: 'BTCMAP_API', url: 'https://api.btcmap.org', mock: '/btcmap' },
+  blink: { env: 'BLINK_API', url: 'https://api.blink.sv/graphql', mock: '/blink/graphql' },
+  bitcoinpeople: { env: 'BITCOIN_PEOPLE_API', url: 'https://api.bitcoinpeople.it/graphql', mock: '/bitcoinpeople/graphql' },
+  bitcoinjungle: { env: 'BITCOIN_JUNGLE_MAPS_API', url: 'https://maps.bitcoinjungle.app', mock: '/bitcoinjungle' },
+  bitcoinjungleGraphql: { env: 'BITCOIN_JUNGLE_API', url: 'https://api.mainnet.bitcoinjungle.app/graphql', mock: '/bitcoinjungle/graphql' },
+  nominatim: { env: 'NOMINATIM_URL', url: 'https://nominatim.openstreetmap.org', mock: '/nominatim' },
+  photon: { env: 'PHOTON_URL', url: 'https://photon.komoot.io', mock: '/photon' },
+  github: { env: 'GITHUB_API_URL', url: 'https://api.github.com', mock: '/github' },
+};
+
+export type UpstreamService = keyof typeof UPSTREAMS;
+
+// Loopback port of the mock server started in mock mode
+export function getMockUpstreamPort(): number {
+  return Number(process.env.MOCK_UPSTREAM_PORT) || 5001;
+}
+
+export function isMockMode(): boolean {
+  return ['true', '1'].includes(process.env.MOCK_UPSTREAMS || '');
+}
+
+// Read lazily so values loaded by dotenv in routes.ts are picked up
+export function getUpstreamUrl(service: UpstreamService): string {
+  const upstream = UPSTREAMS[service];
+  if (isMockMode()) {
+    return `http://127.0.0.1:${getMockUpstreamPort()}${upstream.mock}`;
+  }
+  return (process.env[upstream.env] || upstream.url).replace(/\/$/, '');
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { pgTable, text, doublePrecision, integer, serial, timestamp, index, jsonb } from "drizzle-orm/pg-core";
 
 export const insertMerchantSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -26,14 +27,270 @@ export const insertMerchantSchema = z.object({
 
 export type InsertMerchant = z.infer<typeof insertMerchantSchema>;
 
-// Type for merchant data returned from various APIs
+// Lifecycle of a merchant suggestion:
+// held:      looks like spam, waits for a moderator instead of being filed
+// pending:   stored, waiting for the GitHub issue to be created
+// open:      issue created, nobody has picked it up yet
+// in_review: volunteers labelled the issue
+// added:     issue closed as completed, the merchant is on the map
+// rejected:  issue closed as not planned or labelled as invalid
+export type SubmissionStatus = "held" | "pending" | "open" | "in_review" | "added" | "rejected";
+
+export type SubmissionEvent = {
+  status: SubmissionStatus;
+  at: string;                // ISO timestamp
+  note?: string;             // e.g. the labels that were added
+};
+
+// Known merchant that may be the same place as a suggested one
+export type DuplicateCandidate = {
+  id: string;
+  source: MerchantSourceId;
+  sourceId: string;
+  name: string;
+  address?: string;
+  latitude: number;
+  longitude: number;
+  score: number;             // Weighted name and distance similarity, 0-1
+  distance: number;          // Meters from the suggested location
+};
+
+// Comment a moderator left on the issue of a submission
+export type SubmissionComment = {
+  id: number;                // GitHub comment id
+  author: string;            // GitHub login
+  body: string;              // Markdown
+  url: string;
+  createdAt: string;         // ISO timestamps
+  updatedAt: string;
+};
+
+// Merchant suggestion as stored on the server, before and after it's filed
+// as a GitHub issue
+export type Submission = {
+  id: string;
+  merchant: InsertMerchant;
+  country?: string;          // Resolved from the coordinates
+  countryCode?: string;      // ISO 3166-1 alpha-2
+  status: SubmissionStatus;
+  history: SubmissionEvent[]; // Every status the submission went through, oldest first
+  issueNumber?: number;
+  issueUrl?: string;
+  labels?: string[];         // Issue labels added after it was filed
+  possibleDuplicates?: DuplicateCandidate[]; // Shown to the submitter, who went ahead anyway
+  spamScore?: number;        // Heuristic score, held for moderation from SPAM_THRESHOLD on
+  spamReasons?: string[];
+  comments?: SubmissionComment[]; // Moderator comments on the issue, oldest first
+  attempts: number;          // Tries to create the GitHub issue so far
+  lastError?: string;
+  nextAttemptAt?: string;    // ISO timestamps
+  createdAt: string;
+  updatedAt: string;
+};
+
+// What /api/submissions/:id shows anyone holding the id
+export type PublicSubmission = Omit<Submission, "merchant" | "lastError" | "nextAttemptAt" | "spamScore" | "spamReasons"> & {
+  merchant: Omit<InsertMerchant, "contact">;
+};
+
+// Identifier of an upstream merchant data source (e.g. "btcmap", "blink")
+export type MerchantSourceId = string;
+
+// Branding and behaviour of a merchant data source, served by /api/sources
+export type SourceInfo = {
+  id: MerchantSourceId;
+  name: string;
+  color: string;           // Marker colour
+  logoUrl?: string;        // Logo shown in popups
+  attribution?: string;
+  deduplicate: boolean;    // Hide merchants that are already on BTCMap
+};
+
+export type PaymentMethod = "onchain" | "lightning" | "lightning_contactless";
+
+// Normalized merchant shape built on the server from every data source,
+// so the client never has to know about upstream payload formats
 export type Merchant = {
-  id: string | number;
+  id: string;              // Unique across sources: `${source}-${sourceId}`
+  source: MerchantSourceId;
+  sourceId: string;        // Identifier of the record in the upstream dataset
   name: string;
   latitude: number;
   longitude: number;
-  type?: string;
+  category?: string;
   address?: string;
+  country?: string;        // ISO 3166-1 alpha-2 code, when the source provides one
+  paymentMethods: PaymentMethod[];
   website?: string;
   phone?: string;
-};
\ No newline at end of file
+  openingHours?: string;
+  payUrl?: string;         // Direct payment link (e.g. Blink pay page)
+  username?: string;       // Merchant handle on the source platform
+  description?: string;
+  lastSurveyed?: string;
+};
+
+// Place found by /api/geocode/search or /api/geocode/reverse
+export type GeocodeResult = {
+  label: string;           // One-line address, used to fill in the address field
+  latitude: number;
+  longitude: number;
+  country?: string;
+  countryCode?: string;    // ISO 3166-1 alpha-2
+};
+
+// Highest zoom level /api/merchants/clusters groups merchants at, the map
+// shows individual merchants above it
+export const CLUSTER_MAX_ZOOM = 13;
+
+// Most merchants returned for one map tile above CLUSTER_MAX_ZOOM, the
+// viewport is small by then
+export const TILE_POINT_LIMIT = 5000;
+
+// Group of nearby merchants returned by /api/merchants/clusters at low zoom
+export type MerchantCluster = {
+  id: string;              // `${zoom}/${x}/${y}` of the grid cell
+  latitude: number;        // Centroid of the clustered merchants
+  longitude: number;
+  count: number;
+  sources: Record<MerchantSourceId, number>; // Merchants per source
+};
+
+// Merchant of a deduplicated source found to be the same place as a BTCMap
+// merchant, computed on the server whenever source data refreshes
+export type MerchantMatch = {
+  id: string;              // Id of the duplicate merchant
+  btcmapId: string;        // Id of the BTCMap merchant it matches
+  score: number;           // Weighted name and distance similarity, 0-1
+};
+
+// Health of an upstream source as reported by /api/status and alongside
+// merchant query results
+export type SourceHealth = {
+  id: MerchantSourceId;
+  name: string;
+  status: "ok" | "stale" | "unavailable"; // unavailable: no data to serve at all
+  count: number;           // Records in the cached data
+  stale: boolean;          // Cached data is older than the source TTL
+  lastSuccessAt?: string;  // ISO timestamps
+  lastErrorAt?: string;
+  lastError?: string;
+  latencyMs?: number;      // Duration of the last upstream request
+  circuit: "closed" | "open" | "half-open"; // open: requests are skipped during a cooldown
+};
+
+export type MerchantChangeType = "added" | "removed" | "moved" | "renamed";
+
+// Difference found between two syncs of a source, listed by /api/changes
+export type MerchantChange = {
+  source: MerchantSourceId;
+  merchantId: string;
+  type: MerchantChangeType;
+  name: string;            // Name after the change, last known name when removed
+  latitude: number;        // Position after the change, last known when removed
+  longitude: number;
+  previousName?: string;   // Set for renamed
+  previousLatitude?: number; // Set for moved
+  previousLongitude?: number;
+  detectedAt: string;      // ISO timestamp of the sync that found the change
+};
+
+// Database tables, see server/databaseStorage.ts. Managed with `npm run db:push`.
+
+// Latest normalized merchants of every source, replaced on each sync
+export const merchants = pgTable("merchants", {
+  id: text("id").primaryKey(),
+  source: text("source").notNull(),
+  sourceId: text("source_id").notNull(),
+  name: text("name").notNull(),
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  category: text("category"),
+  address: text("address"),
+  country: text("country"),
+  paymentMethods: text("payment_methods").array().notNull(),
+  website: text("website"),
+  phone: text("phone"),
+  openingHours: text("opening_hours"),
+  payUrl: text("pay_url"),
+  username: text("username"),
+  description: text("description"),
+  lastSurveyed: text("last_surveyed"),
+}, table => [
+  index("merchants_source_idx").on(table.source),
+]);
+
+// One row per sync that changed a source's data, kept for the snapshot
+// retention period (see server/storage.ts) apart from the latest one
+export const sourceSnapshots = pgTable("source_snapshots", {
+  id: serial("id").primaryKey(),
+  source: text("source").notNull(),
+  syncedAt: timestamp("synced_at", { withTimezone: true }).notNull(),
+  merchantCount: integer("merchant_count").notNull(),
+  etag: text("etag"),
+  lastModified: text("last_modified"),
+}, table => [
+  index("source_snapshots_source_synced_at_idx").on(table.source, table.syncedAt),
+]);
+
+// Merchants of the last snapshot of each day and source, so the dataset of
+// any day within the retention period can be rebuilt
+export const snapshotMerchants = pgTable("snapshot_merchants", {
+  snapshotId: integer("snapshot_id").primaryKey().references(() => sourceSnapshots.id, { onDelete: "cascade" }),
+  merchants: jsonb("merchants").$type<Merchant[]>().notNull(),
+});
+
+// Deduplication results, rewritten whenever they change
+export const merchantMatches = pgTable("merchant_matches", {
+  id: text("id").primaryKey(),
+  btcmapId: text("btcmap_id").notNull(),
+  score: doublePrecision("score").notNull(),
+});
+
+// Change log built by comparing each sync with the previous one
+export const merchantChanges = pgTable("merchant_changes", {
+  id: serial("id").primaryKey(),
+  source: text("source").notNull(),
+  merchantId: text("merchant_id").notNull(),
+  type: text("type").notNull(),
+  name: text("name").notNull(),
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  previousName: text("previous_name"),
+  previousLatitude: doublePrecision("previous_latitude"),
+  previousLongitude: doublePrecision("previous_longitude"),
+  detectedAt: timestamp("detected_at", { withTimezone: true }).notNull(),
+}, table => [
+  index("merchant_changes_detected_at_idx").on(table.detectedAt),
+]);
+
+// Merchant suggestions, kept so none is lost when GitHub is unreachable
+export const submissions = pgTable("submissions", {
+  id: text("id").primaryKey(),
+  merchant: jsonb("merchant").$type<InsertMerchant>().notNull(),
+  country: text("country"),
+  countryCode: text("country_code"),
+  status: text("status").notNull(),
+  history: jsonb("history").$type<SubmissionEvent[]>().notNull().default([]),
+  issueNumber: integer("issue_number"),
+  issueUrl: text("issue_url"),
+  labels: text("labels").array(),
+  comments: jsonb("comments").$type<SubmissionComment[]>(),
+  possibleDuplicates: jsonb("possible_duplicates").$type<DuplicateCandidate[]>(),
+  spamScore: integer("spam_score"),
+  spamReasons: text("spam_reasons").array(),
+  attempts: integer("attempts").notNull(),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+}, table => [
+  index("submissions_status_idx").on(table.status),
+  index("submissions_issue_number_idx").on(table.issueNumber),
+]);
+
+export type MerchantRow = typeof merchants.$inferSelect;
+export type SourceSnapshot = typeof sourceSnapshots.$inferSelect;
+export type InsertSourceSnapshot = typeof sourceSnapshots.$inferInsert;
+export type MerchantChangeRow = typeof merchantChanges.$inferSelect;
+export type SubmissionRow = typeof submissions.$inferSelect;